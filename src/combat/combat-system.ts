@@ -1,41 +1,32 @@
-import type { EntityId } from 'bitecs';
+import { query } from 'bitecs';
+import type { World, EntityId } from 'bitecs';
 import {
   Position,
   CombatStats,
-  Target,
   CombatState,
   CombatStateEnum,
   Cooldowns,
   MoveTarget,
   hasPosition,
   hasCombatStats,
-  hasTarget,
-  hasCombatState,
   hasCooldowns,
   hasMoveTarget,
+  hasTargetEntity,
+  resolveTargetEntity,
+  clearTargetEntity,
+  getSkillCooldown,
+  setSkillCooldown,
+  MAX_SKILL_SLOTS,
 } from '../core/components';
+import { CombatantQuery, CooldownQuery } from '../core/queries';
+import { gameEvents } from '../core/events';
+import { rng } from '../core/rng';
+import { MapStore } from '../core/map-store';
+import { getEntityArchetype } from '../core/monster-archetypes';
+import { ABILITIES } from '../core/monster-abilities';
 import { getDistanceBetween } from './physics';
 
-/**
- * Event emitted when an attack hits
- */
-export interface AttackEvent {
-  attacker: EntityId;
-  target: EntityId;
-  damage: number;
-}
-
-// Queue of pending attack events for damage system to process
-const pendingAttacks: AttackEvent[] = [];
-
-/**
- * Get pending attacks and clear the queue
- */
-export function consumeAttackEvents(): AttackEvent[] {
-  const events = [...pendingAttacks];
-  pendingAttacks.length = 0;
-  return events;
-}
+export type { AttackEvent } from '../core/events';
 
 /**
  * Calculate damage with random roll between min and max
@@ -43,7 +34,34 @@ export function consumeAttackEvents(): AttackEvent[] {
 function rollDamage(eid: EntityId): number {
   const min = CombatStats.damageMin[eid];
   const max = CombatStats.damageMax[eid];
-  return min + Math.random() * (max - min);
+  return rng('combat').range(min, max);
+}
+
+/**
+ * Cast the first of a monster's abilities that is ready and reaches the target
+ * @returns whether an ability was cast
+ */
+function tryCastAbility(eid: EntityId, targetEid: EntityId, distance: number): boolean {
+  const abilities = getEntityArchetype(eid)?.abilities;
+  if (!abilities) return false;
+
+  for (let slot = 0; slot < abilities.length; slot++) {
+    const ability = ABILITIES[abilities[slot]];
+    if (distance > ability.range || getSkillCooldown(eid, slot) > 0) continue;
+    if (!MapStore.hasLineOfSight(Position.x[eid], Position.z[eid], Position.x[targetEid], Position.z[targetEid])) {
+      return false;
+    }
+
+    CombatState.state[eid] = CombatStateEnum.ATTACKING;
+    gameEvents.emit('attack', {
+      attacker: eid,
+      target: targetEid,
+      damage: rollDamage(eid) * ability.damageMultiplier,
+    });
+    setSkillCooldown(eid, slot, ability.cooldown);
+    return true;
+  }
+  return false;
 }
 
 /**
@@ -51,26 +69,23 @@ function rollDamage(eid: EntityId): number {
  * 
  * Flow:
  * 1. If entity has a target, check distance
- * 2. If not in range, set MoveTarget to move toward target
- * 3. If in range and attack cooldown ready, trigger attack
- * 4. Apply attack cooldown
+ * 2. If not in melee range, cast a ranged ability if one is ready (monsters)
+ * 3. Otherwise set MoveTarget to move toward target
+ * 4. If in range and attack cooldown ready, trigger attack
+ * 5. Apply attack cooldown
  */
-export function combatSystem(entities: Set<EntityId>, _deltaTime: number): void {
-  for (const eid of entities) {
-    // Skip if missing required components
-    if (!hasCombatStats(eid) || !hasTarget(eid) || !hasCombatState(eid)) continue;
-    
-    const targetEid = Target.entityId[eid];
-    
+export function combatSystem(world: World, _deltaTime: number): void {
+  for (const eid of query(world, CombatantQuery)) {
     // No target or dead - stay idle
-    if (targetEid === -1 || CombatState.state[eid] === CombatStateEnum.DEAD) {
+    if (!hasTargetEntity(eid) || CombatState.state[eid] === CombatStateEnum.DEAD) {
       continue;
     }
     
-    // Check if target still exists and is alive
-    if (!hasCombatStats(targetEid) || CombatStats.hp[targetEid] <= 0) {
+    // Check if target still exists (handle not stale) and is alive
+    const targetEid = resolveTargetEntity(eid);
+    if (targetEid === null || !hasCombatStats(targetEid) || CombatStats.hp[targetEid] <= 0) {
       // Target dead or gone, clear target
-      Target.entityId[eid] = -1;
+      clearTargetEntity(eid);
       CombatState.state[eid] = CombatStateEnum.IDLE;
       continue;
     }
@@ -80,6 +95,9 @@ export function combatSystem(entities: Set<EntityId>, _deltaTime: number): void
     const attackRange = CombatStats.attackRange[eid];
     
     if (distance > attackRange) {
+      // Out of reach - keep closing in while the ability cools down
+      if (tryCastAbility(eid, targetEid, distance)) continue;
+
       // Not in range - move toward target
       CombatState.state[eid] = CombatStateEnum.MOVING_TO_TARGET;
       
@@ -101,9 +119,9 @@ export function combatSystem(entities: Set<EntityId>, _deltaTime: number): void
           // Attack is ready!
           CombatState.state[eid] = CombatStateEnum.ATTACKING;
           
-          // Calculate and queue damage
+          // Calculate damage and emit the attack (damage system reads it this tick)
           const damage = rollDamage(eid);
-          pendingAttacks.push({
+          gameEvents.emit('attack', {
             attacker: eid,
             target: targetEid,
             damage,
@@ -124,13 +142,19 @@ export function combatSystem(entities: Set<EntityId>, _deltaTime: number): void
 /**
  * Update cooldown timers
  */
-export function cooldownSystem(entities: Set<EntityId>, deltaTime: number): void {
-  for (const eid of entities) {
-    if (!hasCooldowns(eid)) continue;
-    
+export function cooldownSystem(world: World, deltaTime: number): void {
+  for (const eid of query(world, CooldownQuery)) {
     // Reduce attack cooldown
     if (Cooldowns.attackTimer[eid] > 0) {
       Cooldowns.attackTimer[eid] -= deltaTime;
     }
+
+    // Reduce ability cooldowns
+    for (let slot = 0; slot < MAX_SKILL_SLOTS; slot++) {
+      const timer = getSkillCooldown(eid, slot);
+      if (timer > 0) {
+        setSkillCooldown(eid, slot, timer - deltaTime);
+      }
+    }
   }
 }
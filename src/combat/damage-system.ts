@@ -1,49 +1,30 @@
-import type { EntityId } from 'bitecs';
+import { query } from 'bitecs';
+import type { World, EntityId } from 'bitecs';
 import {
   Position,
   CombatStats,
   CombatState,
   CombatStateEnum,
-  Target,
+  hasTargetEntity,
+  resolveTargetEntity,
+  clearTargetEntity,
   hasCombatStats,
   hasCombatState,
-  hasTarget,
   hasPosition,
   hasPlayer,
   hasMonster,
   clearEntityComponents,
 } from '../core/components';
 import { getGameWorld } from '../core/world';
-import { consumeAttackEvents, type AttackEvent } from './combat-system';
+import { CombatStateQuery, TargetingQuery } from '../core/queries';
+import { gameEvents, type AttackEvent } from '../core/events';
+import { rng } from '../core/rng';
 import { removeEntityHitbox } from './physics';
 import { gainXP, calculateMonsterXP, hasProgression } from '../core/progression';
+import { getEntityArchetype, monsterExperienceReward } from '../core/monster-archetypes';
+import { getEntityPropType } from '../core/prop-types';
 
-/**
- * Event emitted when an entity dies
- */
-export interface DeathEvent {
-  entity: EntityId;
-  killedBy: EntityId;
-  position: { x: number; y: number; z: number };
-  level: number;
-}
-
-/**
- * Event emitted when damage is dealt
- */
-export interface DamageEvent {
-  target: EntityId;
-  attacker: EntityId;
-  damage: number;
-  isCrit: boolean;
-  position: { x: number; y: number; z: number };
-}
-
-// Queue of death events for loot system
-const pendingDeaths: DeathEvent[] = [];
-
-// Queue of damage events for floating text
-const pendingDamages: DamageEvent[] = [];
+export type { DeathEvent, DamageEvent } from '../core/events';
 
 // Callback for entity cleanup (set by render system)
 type CleanupCallback = (eid: EntityId) => void;
@@ -56,24 +37,6 @@ export function onEntityDestroyed(callback: CleanupCallback): void {
   renderCleanupCallback = callback;
 }
 
-/**
- * Get pending death events and clear the queue
- */
-export function consumeDeathEvents(): DeathEvent[] {
-  const events = [...pendingDeaths];
-  pendingDeaths.length = 0;
-  return events;
-}
-
-/**
- * Get pending damage events and clear the queue
- */
-export function consumeDamageEvents(): DamageEvent[] {
-  const events = [...pendingDamages];
-  pendingDamages.length = 0;
-  return events;
-}
-
 /**
  * Apply damage to an entity
  */
@@ -81,13 +44,15 @@ function applyDamage(event: AttackEvent): void {
   const { target, damage, attacker } = event;
   
   if (!hasCombatStats(target)) return;
+  // Already killed (earlier this tick, e.g. by a hazard) - one death, one loot roll
+  if (hasCombatState(target) && CombatState.state[target] === CombatStateEnum.DEAD) return;
   
   // Calculate damage reduction from armor
   const armor = CombatStats.armor[target];
   const reduction = armor / (armor + 100); // Diminishing returns formula
   
   // 5% crit chance, 150% crit damage
-  const isCrit = Math.random() < 0.05;
+  const isCrit = rng('combat').chance(0.05);
   const critMultiplier = isCrit ? 1.5 : 1.0;
   
   const finalDamage = Math.max(1, damage * (1 - reduction) * critMultiplier);
@@ -100,7 +65,7 @@ function applyDamage(event: AttackEvent): void {
     ? { x: Position.x[target], y: Position.y[target], z: Position.z[target] }
     : { x: 0, y: 0, z: 0 };
   
-  pendingDamages.push({
+  gameEvents.emit('damage', {
     target,
     attacker,
     damage: finalDamage,
@@ -122,16 +87,22 @@ function applyDamage(event: AttackEvent): void {
       : { x: 0, y: 0, z: 0 };
     
     // Emit death event
-    pendingDeaths.push({
+    const archetype = getEntityArchetype(target);
+    const level = CombatStats.level[target];
+    gameEvents.emit('death', {
       entity: target,
       killedBy: attacker,
       position: pos,
-      level: CombatStats.level[target],
+      level,
+      archetype: archetype?.id ?? null,
+      prop: getEntityPropType(target)?.id ?? null,
     });
     
     // Grant XP to killer if player killed a monster
     if (hasPlayer(attacker) && hasMonster(target) && hasProgression(attacker)) {
-      const xpReward = calculateMonsterXP(CombatStats.level[target]);
+      const xpReward = archetype
+        ? monsterExperienceReward(archetype, level)
+        : calculateMonsterXP(level);
       gainXP(attacker, xpReward);
     }
   }
@@ -140,10 +111,9 @@ function applyDamage(event: AttackEvent): void {
 /**
  * Damage System - processes attack events and handles entity deaths
  */
-export function damageSystem(_entities: Set<EntityId>): void {
-  // Process all pending attacks
-  const attacks = consumeAttackEvents();
-  for (const attack of attacks) {
+export function damageSystem(_world: World): void {
+  // Process attacks emitted this tick
+  for (const attack of gameEvents.read('attack')) {
     applyDamage(attack);
   }
 }
@@ -151,12 +121,10 @@ export function damageSystem(_entities: Set<EntityId>): void {
 /**
  * Death Cleanup System - removes dead entities from all systems
  */
-export function deathCleanupSystem(entities: Set<EntityId>): EntityId[] {
+export function deathCleanupSystem(world: World): EntityId[] {
   const deadEntities: EntityId[] = [];
   
-  for (const eid of entities) {
-    if (!hasCombatState(eid)) continue;
-    
+  for (const eid of query(world, CombatStateQuery)) {
     if (CombatState.state[eid] === CombatStateEnum.DEAD) {
       deadEntities.push(eid);
     }
@@ -165,10 +133,13 @@ export function deathCleanupSystem(entities: Set<EntityId>): EntityId[] {
   // Clean up dead entities
   const gameWorld = getGameWorld();
   for (const eid of deadEntities) {
-    // 1. Clear any entities targeting this one
-    for (const otherEid of entities) {
-      if (hasTarget(otherEid) && Target.entityId[otherEid] === eid) {
-        Target.entityId[otherEid] = -1;
+    // 1. Clear any entities targeting this one (or holding a stale handle)
+    for (const otherEid of query(world, TargetingQuery)) {
+      if (!hasTargetEntity(otherEid)) continue;
+      
+      const targetEid = resolveTargetEntity(otherEid);
+      if (targetEid === null || targetEid === eid) {
+        clearTargetEntity(otherEid);
         if (hasCombatState(otherEid)) {
           CombatState.state[otherEid] = CombatStateEnum.IDLE;
         }
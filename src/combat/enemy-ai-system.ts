@@ -1,32 +1,41 @@
-import type { EntityId } from 'bitecs';
+import { query } from 'bitecs';
+import type { World, EntityId } from 'bitecs';
 import {
-  Target,
+  Position,
   CombatState,
   CombatStateEnum,
   CombatStats,
-  hasMonster,
   hasCombatStats,
-  hasCombatState,
-  hasTarget,
-  hasPosition,
+  hasMonster,
+  hasTargetEntity,
+  resolveTargetEntity,
+  setTargetEntity,
+  clearTargetEntity,
 } from '../core/components';
+import { MonsterQuery } from '../core/queries';
+import { spatialIndex } from '../core/spatial-hash';
+import { MapStore } from '../core/map-store';
 import { getDistanceBetween } from './physics';
 
 // AI Constants
 const AGGRO_RANGE = 8.0;  // Distance at which monsters detect player
 const LEASH_RANGE = 15.0; // Distance at which monsters give up chase
 
+// Reused buffer for aggro queries
+const nearbyScratch: EntityId[] = [];
+
 /**
  * Enemy AI System - handles monster targeting behavior
  * 
  * Flow:
- * 1. For each monster entity
- * 2. If no target and player in aggro range → target player
- * 3. If target is too far (leash) → clear target
+ * 1. For each monster with a target
+ * 2. If target is gone (stale handle) or too far (leash) → clear target
+ * 3. Idle monsters in aggro range (spatial index query) that can see the player
+ *    (no wall or closed door in between) → target player
  * 4. combatSystem handles the rest (movement, attacking)
  */
 export function enemyAISystem(
-  entities: Set<EntityId>,
+  world: World,
   playerEid: EntityId | null,
   _deltaTime: number
 ): void {
@@ -36,33 +45,32 @@ export function enemyAISystem(
   // Check if player is alive
   if (!hasCombatStats(playerEid) || CombatStats.hp[playerEid] <= 0) return;
   
-  for (const eid of entities) {
-    // Only process monsters
-    if (!hasMonster(eid)) continue;
-    if (!hasTarget(eid) || !hasCombatState(eid) || !hasPosition(eid)) continue;
-    
-    // Skip dead monsters
-    if (hasCombatState(eid) && CombatState.state[eid] === CombatStateEnum.DEAD) continue;
+  // Engaged monsters - drop stale targets and check leash range
+  for (const eid of query(world, MonsterQuery)) {
+    // Skip dead or idle monsters (aggro is handled below)
+    if (CombatState.state[eid] === CombatStateEnum.DEAD || !hasTargetEntity(eid)) continue;
     
-    const currentTarget = Target.entityId[eid];
-    const distanceToPlayer = getDistanceBetween(eid, playerEid);
-    
-    // No current target - check for aggro
-    if (currentTarget === -1) {
-      if (distanceToPlayer <= AGGRO_RANGE) {
-        // Aggro! Target the player
-        Target.entityId[eid] = playerEid;
-        CombatState.state[eid] = CombatStateEnum.MOVING_TO_TARGET;
-        // console.log(`👹 Monster ${eid} aggro on player! Distance: ${distanceToPlayer.toFixed(1)}`);
-      }
-    } else {
-      // Has a target - check leash range
-      if (distanceToPlayer > LEASH_RANGE) {
-        // Too far, give up chase
-        Target.entityId[eid] = -1;
-        CombatState.state[eid] = CombatStateEnum.IDLE;
-        // console.log(`👹 Monster ${eid} lost interest (leash)`);
-      }
+    if (resolveTargetEntity(eid) === null) {
+      // Target was destroyed (its id may already belong to another entity)
+      clearTargetEntity(eid);
+      CombatState.state[eid] = CombatStateEnum.IDLE;
+    } else if (getDistanceBetween(eid, playerEid) > LEASH_RANGE) {
+      // Too far, give up chase
+      clearTargetEntity(eid);
+      CombatState.state[eid] = CombatStateEnum.IDLE;
+      // console.log(`👹 Monster ${eid} lost interest (leash)`);
     }
   }
+  
+  // Idle monsters near the player - aggro
+  const nearby = spatialIndex.queryRadius(Position.x[playerEid], Position.z[playerEid], AGGRO_RANGE, nearbyScratch);
+  for (const eid of nearby) {
+    if (!hasMonster(eid) || hasTargetEntity(eid)) continue;
+    if (CombatState.state[eid] === CombatStateEnum.DEAD) continue;
+    if (!MapStore.hasLineOfSight(Position.x[eid], Position.z[eid], Position.x[playerEid], Position.z[playerEid])) continue;
+    
+    // Aggro! Target the player
+    setTargetEntity(eid, playerEid);
+    CombatState.state[eid] = CombatStateEnum.MOVING_TO_TARGET;
+  }
 }
@@ -1,20 +1,24 @@
 import * as THREE from 'three';
-import type { EntityId } from 'bitecs';
+import { query, addComponent, removeComponent, hasComponent, entityExists } from 'bitecs';
+import type { World, EntityId } from 'bitecs';
 import type { RenderObjectPool } from '../render/render-system';
 import { Renderable } from '../core/components';
+import { getGameWorld } from '../core/world';
+import { onExitQuery } from '../core/queries';
 
 /**
  * HitFlash component - Structure of Arrays for BiTECS
- * Tracks entities that should flash white when hit
+ * Tracks entities that should flash white when hit (present only while flashing)
  */
 export const HitFlash = {
-  active: new Uint8Array(10000),      // 1 = currently flashing
   timer: new Float32Array(10000),      // Time remaining for flash
   originalColorR: new Float32Array(10000),
   originalColorG: new Float32Array(10000),
   originalColorB: new Float32Array(10000),
 };
 
+const HitFlashQuery = [HitFlash, Renderable];
+
 const FLASH_DURATION = 0.1; // 100ms flash
 const FLASH_COLOR = new THREE.Color(0xffffff);
 
@@ -22,7 +26,10 @@ const FLASH_COLOR = new THREE.Color(0xffffff);
  * Trigger a hit flash on an entity
  */
 export function triggerHitFlash(eid: EntityId): void {
-  HitFlash.active[eid] = 1;
+  const world = getGameWorld().world;
+  if (!entityExists(world, eid)) return;
+  
+  addComponent(world, eid, HitFlash);
   HitFlash.timer[eid] = FLASH_DURATION;
 }
 
@@ -30,7 +37,7 @@ export function triggerHitFlash(eid: EntityId): void {
  * Check if entity has hit flash
  */
 export function hasHitFlash(eid: EntityId): boolean {
-  return HitFlash.active[eid] === 1;
+  return hasComponent(getGameWorld().world, eid, HitFlash);
 }
 
 // White material for flash effect
@@ -45,54 +52,57 @@ function getFlashMaterial(): THREE.MeshBasicMaterial {
   return flashMaterial;
 }
 
-// Store original materials to restore them
-const originalMaterials = new Map<number, THREE.Material>();
+// Original materials of flashing meshes, restored when the flash ends
+// or the entity is destroyed mid-flash (before its mesh returns to the pool)
+const originalMaterials = new Map<number, { mesh: THREE.Mesh; material: THREE.Material }>();
+
+function restoreMaterial(eid: EntityId): void {
+  const original = originalMaterials.get(eid);
+  if (original) {
+    original.mesh.material = original.material;
+    originalMaterials.delete(eid);
+  }
+}
 
 /**
- * Hit flash system - swaps material to white during flash
+ * Create the hit flash system - swaps material to white during flash
  */
-export function hitFlashSystem(
-  entities: Set<EntityId>,
-  objectPool: RenderObjectPool,
-  deltaTime: number
-): void {
-  for (const eid of entities) {
-    if (HitFlash.active[eid] !== 1) continue;
+export function createHitFlashSystem(objectPool: RenderObjectPool, world: World) {
+  // Flash ended or entity removed - may fire more than once per entity
+  onExitQuery(world, HitFlashQuery, restoreMaterial);
 
-    const objectIndex = Renderable.objectIndex[eid];
-    const mesh = objectPool.get(objectIndex);
-    if (!mesh) continue;
+  return function hitFlashSystem(world: World, deltaTime: number): void {
+    for (const eid of query(world, HitFlashQuery)) {
+      const objectIndex = Renderable.objectIndex[eid];
+      const mesh = objectPool.get(objectIndex);
+      if (!mesh) continue;
 
-    // Start of flash - store original material
-    if (HitFlash.timer[eid] === FLASH_DURATION) {
+      // Start of flash - store original material
       if (!originalMaterials.has(eid)) {
-        originalMaterials.set(eid, mesh.material as THREE.Material);
+        originalMaterials.set(eid, { mesh, material: mesh.material as THREE.Material });
+        mesh.material = getFlashMaterial();
       }
-      mesh.material = getFlashMaterial();
-    }
-
-    // Update timer
-    HitFlash.timer[eid] -= deltaTime;
 
-    // Flash ended - restore original material
-    if (HitFlash.timer[eid] <= 0) {
-      HitFlash.active[eid] = 0;
-      HitFlash.timer[eid] = 0;
+      // Update timer
+      HitFlash.timer[eid] -= deltaTime;
 
-      const original = originalMaterials.get(eid);
-      if (original) {
-        mesh.material = original;
-        originalMaterials.delete(eid);
+      // Flash ended - exit hook restores the original material
+      if (HitFlash.timer[eid] <= 0) {
+        HitFlash.timer[eid] = 0;
+        removeComponent(world, eid, HitFlash);
       }
     }
-  }
+  };
 }
 
 /**
  * Clean up flash state when entity is destroyed
  */
 export function cleanupHitFlash(eid: EntityId): void {
-  HitFlash.active[eid] = 0;
+  const world = getGameWorld().world;
+  if (entityExists(world, eid)) {
+    removeComponent(world, eid, HitFlash);
+  }
   HitFlash.timer[eid] = 0;
-  originalMaterials.delete(eid);
+  restoreMaterial(eid);
 }
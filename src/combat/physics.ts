@@ -1,7 +1,11 @@
 import RAPIER from '@dimforge/rapier3d-compat';
 import { Position, hasPosition } from '../core/components';
+import type { WallRect } from '../core/wall-rects';
 import type { EntityId } from 'bitecs';
 
+// Walls are 2 units tall, standing on the floor
+const WALL_HALF_HEIGHT = 1;
+
 /**
  * Physics world singleton
  */
@@ -121,6 +125,28 @@ export function isInRange(attacker: EntityId, target: EntityId, range: number):
   return getDistanceBetween(attacker, target) <= range;
 }
 
+/**
+ * Create one fixed body holding a box collider per wall rectangle
+ * Removing the body (world.removeRigidBody) frees all of its colliders.
+ * @param width map width in tiles (tile centres sit at x - width / 2)
+ * @param height map height in tiles
+ */
+export function createWallColliders(rects: readonly WallRect[], width: number, height: number): RAPIER.RigidBody {
+  const world = getPhysicsWorld();
+  const body = world.createRigidBody(RAPIER.RigidBodyDesc.fixed());
+
+  for (const rect of rects) {
+    const colliderDesc = RAPIER.ColliderDesc.cuboid(rect.w / 2, WALL_HALF_HEIGHT, rect.h / 2)
+      .setTranslation(
+        rect.x + (rect.w - 1) / 2 - width / 2,
+        WALL_HALF_HEIGHT,
+        rect.y + (rect.h - 1) / 2 - height / 2
+      );
+    world.createCollider(colliderDesc, body);
+  }
+  return body;
+}
+
 /**
  * Step the physics simulation
  */
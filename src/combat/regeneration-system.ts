@@ -2,19 +2,18 @@
  * Health Regeneration System
  * Regenerates player HP over time based on healthRegen stat
  */
-import type { EntityId } from 'bitecs';
-import { CombatStats, hasCombatStats, hasPlayer } from '../core/components';
+import { query } from 'bitecs';
+import type { World } from 'bitecs';
+import { CombatStats, hasPlayer } from '../core/components';
+import { RegenQuery } from '../core/queries';
 import { playerHealth } from '../stores/player';
 
 /**
  * Regeneration system - heals entities with healthRegen stat
  * Called every frame with deltaTime
  */
-export function regenerationSystem(entities: Set<EntityId>, deltaTime: number): void {
-  for (const eid of entities) {
-    // Only process entities with combat stats
-    if (!hasCombatStats(eid)) continue;
-    
+export function regenerationSystem(world: World, deltaTime: number): void {
+  for (const eid of query(world, RegenQuery)) {
     const regen = CombatStats.healthRegen[eid];
     if (regen <= 0) continue;
     
@@ -0,0 +1,48 @@
+/**
+ * Biomes - layout style and palette of each dungeon floor
+ *
+ * Floors cycle through the biomes as the player descends, so consecutive
+ * floors use different generators. Floor 1 is always the crypt (BSP rooms),
+ * which keeps shared ?seed= links on their original layout.
+ */
+import { BspDungeonGenerator, type DungeonGenerator } from './dungeon-generator';
+import { CaveDungeonGenerator } from './cave-generator';
+import { TemplateDungeonGenerator } from './template-generator';
+
+export type DungeonLayout = 'rooms' | 'caves' | 'templates';
+
+export interface Biome {
+  id: string;
+  name: string;
+  /** Generator used for the floor's layout */
+  layout: DungeonLayout;
+  floorColor: number;
+  wallColor: number;
+}
+
+export const BIOMES: readonly Biome[] = [
+  { id: 'crypt', name: 'Crypt', layout: 'rooms', floorColor: 0x444444, wallColor: 0x888888 },
+  { id: 'caves', name: 'Caves', layout: 'caves', floorColor: 0x3b3128, wallColor: 0x6e5b47 },
+  { id: 'halls', name: 'Forgotten Halls', layout: 'templates', floorColor: 0x363b46, wallColor: 0x7c8496 },
+];
+
+/**
+ * Biome of a floor (1 = top)
+ */
+export function biomeForDepth(depth: number): Biome {
+  return BIOMES[(Math.max(1, Math.floor(depth)) - 1) % BIOMES.length];
+}
+
+/**
+ * Generator for a floor, picked by the floor's biome
+ */
+export function createDungeonGenerator(width: number, height: number, seed: number, depth: number): DungeonGenerator {
+  switch (biomeForDepth(depth).layout) {
+    case 'rooms':
+      return new BspDungeonGenerator(width, height, seed, depth);
+    case 'caves':
+      return new CaveDungeonGenerator(width, height, seed, depth);
+    case 'templates':
+      return new TemplateDungeonGenerator(width, height, seed, depth);
+  }
+}
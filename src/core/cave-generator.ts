@@ -0,0 +1,268 @@
+/**
+ * Cave Generator - cellular automata caverns
+ *
+ * Random fill, then a few smoothing passes of the 4-5 rule (a tile becomes
+ * wall with 5+ wall neighbours and stays wall with 4). Only the largest open
+ * region is kept, so every floor tile is reachable. Caves have no rooms or
+ * doors (so no room roles): monsters spawn in packs spread over the cave,
+ * props line the walls of each sector as in a normal room and the stairs sit
+ * on the tile farthest from the start.
+ */
+import { Rng, rng } from './rng';
+import { extraSpawnsForDepth } from './depth';
+import {
+  TileType,
+  floodDistances,
+  placeHazards,
+  placeProps,
+  type DungeonData,
+  type DungeonGenerator,
+  type Room,
+  type RoomSpawn,
+} from './dungeon-generator';
+
+interface GridPoint {
+  x: number;
+  y: number;
+}
+
+// Share of tiles that start as wall
+const FILL_CHANCE = 0.45;
+const SMOOTHING_PASSES = 5;
+// Wall neighbours (of 8) at which a floor tile becomes wall; walls need one fewer to stay
+const WALL_THRESHOLD = 5;
+// Re-roll caves whose largest region covers less of the map than this
+const MIN_OPEN_SHARE = 0.3;
+const MAX_ATTEMPTS = 10;
+// Every attempt came out (almost) solid: carve a room this size in the middle instead
+const FALLBACK_ROOM_SIZE = 5;
+// One monster pack per this many floor tiles
+const TILES_PER_PACK = 250;
+const PACK_RADIUS = 2;
+// Packs keep at least this many steps away from the player start
+const SAFE_DISTANCE = 12;
+// Props are placed per square sector of this many tiles, each treated as a normal room
+const PROP_SECTOR_SIZE = 20;
+
+const NEIGHBOURS_4 = [[1, 0], [-1, 0], [0, 1], [0, -1]];
+
+export class CaveDungeonGenerator implements DungeonGenerator {
+  private width: number;
+  private height: number;
+  private random: Rng;
+  readonly seed: number;
+  readonly depth: number;
+
+  /**
+   * @param seed layout seed (drawn from the game's dungeon stream if omitted)
+   * @param depth floor number - deeper floors spawn bigger packs
+   */
+  constructor(
+    width: number = 50,
+    height: number = 50,
+    seed: number = rng('dungeon').nextSeed(),
+    depth: number = 1
+  ) {
+    this.width = width;
+    this.height = height;
+    this.seed = seed >>> 0;
+    this.depth = depth;
+    this.random = new Rng(this.seed);
+  }
+
+  generate(): DungeonData {
+    // Restart from the seed so every call yields the same layout
+    this.random = new Rng(this.seed);
+
+    // Keep the best of a few attempts (the first one is almost always enough)
+    let map: TileType[][] = [];
+    let region: GridPoint[] = [];
+    for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt++) {
+      const candidate = this.carveCave();
+      const candidateRegion = this.largestRegion(candidate);
+      if (candidateRegion.length > region.length) {
+        map = candidate;
+        region = candidateRegion;
+      }
+      if (region.length >= this.width * this.height * MIN_OPEN_SHARE) break;
+    }
+    // The start and the stairs need a tile each
+    if (region.length < 2) {
+      map = this.carveFallbackRoom();
+      region = this.largestRegion(map);
+    }
+
+    // Wall off every pocket outside the main region
+    const keep = new Set(region.map(p => p.y * this.width + p.x));
+    for (let y = 0; y < this.height; y++) {
+      for (let x = 0; x < this.width; x++) {
+        if (!keep.has(y * this.width + x)) map[y][x] = TileType.WALL;
+      }
+    }
+
+    const playerStart = this.getPlayerStart(region);
+    const distances = floodDistances(map, playerStart);
+    const stairsDown = this.placeStairs(map, region, distances);
+    const enemySpawns = this.getEnemySpawns(map, region, distances);
+    const propSpawns = placeProps(map, this.propSectors(), playerStart, this.random, enemySpawns);
+    placeHazards(map, [], playerStart, this.depth, this.random, [...enemySpawns, ...propSpawns]);
+
+    return {
+      seed: this.seed,
+      depth: this.depth,
+      width: this.width,
+      height: this.height,
+      tiles: map,
+      rooms: [],
+      playerStart,
+      stairsDown,
+      enemySpawns,
+      itemSpawns: [],
+      propSpawns
+    };
+  }
+
+  /**
+   * Random fill smoothed into caverns (the map border is always wall)
+   */
+  private carveCave(): TileType[][] {
+    let map: TileType[][] = [];
+    for (let y = 0; y < this.height; y++) {
+      const row: TileType[] = [];
+      for (let x = 0; x < this.width; x++) {
+        const border = x === 0 || y === 0 || x === this.width - 1 || y === this.height - 1;
+        row.push(border || this.random.chance(FILL_CHANCE) ? TileType.WALL : TileType.FLOOR);
+      }
+      map.push(row);
+    }
+
+    for (let pass = 0; pass < SMOOTHING_PASSES; pass++) {
+      map = map.map((row, y) => row.map((tile, x) => {
+        const border = x === 0 || y === 0 || x === this.width - 1 || y === this.height - 1;
+        const threshold = tile === TileType.WALL ? WALL_THRESHOLD - 1 : WALL_THRESHOLD;
+        return border || this.countWallNeighbours(map, x, y) >= threshold ? TileType.WALL : TileType.FLOOR;
+      }));
+    }
+    return map;
+  }
+
+  /**
+   * Solid map with one open square in the middle
+   */
+  private carveFallbackRoom(): TileType[][] {
+    const size = Math.min(FALLBACK_ROOM_SIZE, this.width - 2, this.height - 2);
+    const left = Math.floor((this.width - size) / 2);
+    const top = Math.floor((this.height - size) / 2);
+    return Array.from({ length: this.height }, (_, y) => Array.from({ length: this.width }, (_, x) =>
+      x >= left && x < left + size && y >= top && y < top + size ? TileType.FLOOR : TileType.WALL
+    ));
+  }
+
+  private countWallNeighbours(map: TileType[][], x: number, y: number): number {
+    let walls = 0;
+    for (let dy = -1; dy <= 1; dy++) {
+      for (let dx = -1; dx <= 1; dx++) {
+        if (dx === 0 && dy === 0) continue;
+        if (map[y + dy]?.[x + dx] !== TileType.FLOOR) walls++;
+      }
+    }
+    return walls;
+  }
+
+  /**
+   * Floor tiles of the biggest 4-connected open area
+   */
+  private largestRegion(map: TileType[][]): GridPoint[] {
+    const seen = new Uint8Array(this.width * this.height);
+    let largest: GridPoint[] = [];
+
+    for (let y = 0; y < this.height; y++) {
+      for (let x = 0; x < this.width; x++) {
+        if (seen[y * this.width + x] || map[y][x] !== TileType.FLOOR) continue;
+
+        const region: GridPoint[] = [];
+        const stack = [{ x, y }];
+        seen[y * this.width + x] = 1;
+        while (stack.length > 0) {
+          const tile = stack.pop()!;
+          region.push(tile);
+          for (const [dx, dy] of NEIGHBOURS_4) {
+            const nx = tile.x + dx;
+            const ny = tile.y + dy;
+            if (map[ny]?.[nx] !== TileType.FLOOR || seen[ny * this.width + nx]) continue;
+            seen[ny * this.width + nx] = 1;
+            stack.push({ x: nx, y: ny });
+          }
+        }
+
+        if (region.length > largest.length) largest = region;
+      }
+    }
+    return largest;
+  }
+
+  private getPlayerStart(region: GridPoint[]): GridPoint {
+    // Open tile closest to the middle of the map
+    const cx = this.width / 2;
+    const cy = this.height / 2;
+    let best = region[0];
+    let bestDistance = Infinity;
+    for (const tile of region) {
+      const distance = (tile.x - cx) ** 2 + (tile.y - cy) ** 2;
+      if (distance < bestDistance) {
+        best = tile;
+        bestDistance = distance;
+      }
+    }
+    return { x: best.x, y: best.y };
+  }
+
+  private placeStairs(map: TileType[][], region: GridPoint[], distances: Int32Array): GridPoint {
+    // Farthest walk from the start
+    let stairs = region[0];
+    for (const tile of region) {
+      if (distances[tile.y * this.width + tile.x] > distances[stairs.y * this.width + stairs.x]) {
+        stairs = tile;
+      }
+    }
+    map[stairs.y][stairs.x] = TileType.STAIRS_DOWN;
+    return { x: stairs.x, y: stairs.y };
+  }
+
+  /**
+   * Map split into sectors for placeProps (not returned as rooms)
+   */
+  private propSectors(): Room[] {
+    const sectors: Room[] = [];
+    for (let y = 0; y < this.height; y += PROP_SECTOR_SIZE) {
+      for (let x = 0; x < this.width; x += PROP_SECTOR_SIZE) {
+        const w = Math.min(PROP_SECTOR_SIZE, this.width - x);
+        const h = Math.min(PROP_SECTOR_SIZE, this.height - y);
+        sectors.push({ x, y, w, h, role: 'normal' });
+      }
+    }
+    return sectors;
+  }
+
+  private getEnemySpawns(map: TileType[][], region: GridPoint[], distances: Int32Array): RoomSpawn[] {
+    const spawns: RoomSpawn[] = [];
+    const candidates = region.filter(tile =>
+      distances[tile.y * this.width + tile.x] > SAFE_DISTANCE && map[tile.y][tile.x] === TileType.FLOOR
+    );
+    if (candidates.length === 0) return spawns;
+
+    const packs = Math.max(1, Math.round(region.length / TILES_PER_PACK));
+    for (let i = 0; i < packs; i++) {
+      const center = this.random.pick(candidates);
+      // 1-3 monsters per pack, more on deeper floors
+      const count = this.random.int(1, 3) + extraSpawnsForDepth(this.depth);
+      for (let j = 0; j < count; j++) {
+        const x = center.x + this.random.int(-PACK_RADIUS, PACK_RADIUS);
+        const y = center.y + this.random.int(-PACK_RADIUS, PACK_RADIUS);
+        const tile = map[y]?.[x] === TileType.FLOOR ? { x, y } : { x: center.x, y: center.y };
+        spawns.push({ ...tile, role: 'normal' });
+      }
+    }
+    return spawns;
+  }
+}
@@ -1,10 +1,21 @@
 /**
  * Component store types using Structure of Arrays pattern
  * BiTECS 0.4.0 uses simple object stores accessed via entity ID
+ * The stores themselves are registered as bitECS components, so membership
+ * is tracked by the world and systems can iterate cached queries.
  */
+import {
+  addComponent,
+  hasComponent,
+  removeComponent,
+  entityExists,
+  getEntityComponents,
+} from 'bitecs';
+import { getGameWorld, NULL_HANDLE, type EntityHandle } from './world';
+import { clearPath } from './path-store';
 
 const MAX_ENTITIES = 10000;
-const MAX_SKILL_SLOTS = 6;
+export const MAX_SKILL_SLOTS = 6;
 
 // ============================================================================
 // MOVEMENT COMPONENTS
@@ -19,6 +30,41 @@ export const Position = {
   z: new Float32Array(MAX_ENTITIES),
 };
 
+/**
+ * Position at the previous simulation tick
+ * Not a component of its own: it shadows Position for render interpolation
+ */
+export const PreviousPosition = {
+  x: new Float32Array(MAX_ENTITIES),
+  y: new Float32Array(MAX_ENTITIES),
+  z: new Float32Array(MAX_ENTITIES),
+};
+
+/**
+ * Copy the current position into the previous-tick snapshot
+ * Call after teleporting an entity so it doesn't slide across the map
+ */
+export function snapPreviousPosition(eid: number): void {
+  PreviousPosition.x[eid] = Position.x[eid];
+  PreviousPosition.y[eid] = Position.y[eid];
+  PreviousPosition.z[eid] = Position.z[eid];
+}
+
+/**
+ * Position blended between the previous and current tick
+ * @param alpha Interpolation factor from the fixed timestep (0..1)
+ */
+export function getInterpolatedPosition(
+  eid: number,
+  alpha: number,
+  out: { x: number; y: number; z: number }
+): { x: number; y: number; z: number } {
+  out.x = PreviousPosition.x[eid] + (Position.x[eid] - PreviousPosition.x[eid]) * alpha;
+  out.y = PreviousPosition.y[eid] + (Position.y[eid] - PreviousPosition.y[eid]) * alpha;
+  out.z = PreviousPosition.z[eid] + (Position.z[eid] - PreviousPosition.z[eid]) * alpha;
+  return out;
+}
+
 /**
  * Velocity component (movement per second)
  */
@@ -105,12 +151,33 @@ export function initBaseStats(eid: number, stats: {
 }
 
 /**
- * Combat target component - entity ID of current attack target
+ * Combat target component - generational handle of current attack target
  */
 export const Target = {
-  entityId: new Int32Array(MAX_ENTITIES), // -1 = no target
+  entityId: new Int32Array(MAX_ENTITIES), // EntityHandle, -1 = no target
 };
 
+// Helpers to read/write the target handle
+export function setTargetEntity(eid: number, targetEid: number): void {
+  Target.entityId[eid] = getGameWorld().getHandle(targetEid);
+}
+
+export function clearTargetEntity(eid: number): void {
+  Target.entityId[eid] = NULL_HANDLE;
+}
+
+export function hasTargetEntity(eid: number): boolean {
+  return Target.entityId[eid] !== NULL_HANDLE;
+}
+
+/**
+ * Resolve the current target to a live entity index
+ * @returns null if there is no target or the targeted entity no longer exists
+ */
+export function resolveTargetEntity(eid: number): number | null {
+  return getGameWorld().resolve(Target.entityId[eid] as EntityHandle);
+}
+
 /**
  * Combat state enum values
  */
@@ -167,22 +234,39 @@ export const ItemDropVisual = {
 };
 
 // ============================================================================
-// ENTITY TYPE FLAGS
+// ENTITY TYPE TAGS
 // ============================================================================
 
-export const ComponentFlags = {
-  position: new Uint8Array(MAX_ENTITIES),
-  velocity: new Uint8Array(MAX_ENTITIES),
-  moveTarget: new Uint8Array(MAX_ENTITIES),
-  renderable: new Uint8Array(MAX_ENTITIES),
-  speed: new Uint8Array(MAX_ENTITIES),
-  player: new Uint8Array(MAX_ENTITIES),
-  monster: new Uint8Array(MAX_ENTITIES),
-  itemDrop: new Uint8Array(MAX_ENTITIES),
-  combatStats: new Uint8Array(MAX_ENTITIES),
-  target: new Uint8Array(MAX_ENTITIES),
-  cooldowns: new Uint8Array(MAX_ENTITIES),
-  combatState: new Uint8Array(MAX_ENTITIES),
+/**
+ * Tag components (no data) used to classify entities in queries
+ */
+export const Player = {};
+export const Monster = {};
+export const ItemDrop = {};
+
+/**
+ * Tag for entities that open closed doors by walking into them
+ * (pathfinding routes through closed doors only for these)
+ */
+export const DoorOpener = {};
+
+/**
+ * Monster archetype - index into the archetypes loaded from monsters.json
+ */
+export const MonsterArchetype = {
+  index: new Uint16Array(MAX_ENTITIES),
+};
+
+/**
+ * Tag for breakable props (barrels, crates, urns)
+ */
+export const Prop = {};
+
+/**
+ * Prop type - index into the prop types loaded from props.json
+ */
+export const PropType = {
+  index: new Uint16Array(MAX_ENTITIES),
 };
 
 // ============================================================================
@@ -267,53 +351,84 @@ export function initEquipmentSlots(playerEid: number): void {
 // COMPONENT ADD/HAS FUNCTIONS
 // ============================================================================
 
+function attach(eid: number, component: object): void {
+  addComponent(getGameWorld().world, eid, component);
+}
+
+function has(eid: number, component: object): boolean {
+  return hasComponent(getGameWorld().world, eid, component);
+}
+
 // Movement
 export function addPositionComponent(eid: number): void {
-  ComponentFlags.position[eid] = 1;
+  attach(eid, Position);
 }
 
 export function addVelocityComponent(eid: number): void {
-  ComponentFlags.velocity[eid] = 1;
+  attach(eid, Velocity);
+  // Recycled ids keep their old store values
+  Velocity.x[eid] = 0;
+  Velocity.y[eid] = 0;
+  Velocity.z[eid] = 0;
 }
 
 export function addMoveTargetComponent(eid: number): void {
-  ComponentFlags.moveTarget[eid] = 1;
+  attach(eid, MoveTarget);
+  MoveTarget.active[eid] = 0; // Initialize with no destination
 }
 
 export function addSpeedComponent(eid: number): void {
-  ComponentFlags.speed[eid] = 1;
+  attach(eid, Speed);
 }
 
 // Entity types
 export function addPlayerComponent(eid: number): void {
-  ComponentFlags.player[eid] = 1;
+  attach(eid, Player);
 }
 
 export function addMonsterComponent(eid: number): void {
-  ComponentFlags.monster[eid] = 1;
+  attach(eid, Monster);
+}
+
+export function addMonsterArchetypeComponent(eid: number, index: number): void {
+  attach(eid, MonsterArchetype);
+  MonsterArchetype.index[eid] = index;
+}
+
+export function addDoorOpenerComponent(eid: number): void {
+  attach(eid, DoorOpener);
+}
+
+export function addPropComponent(eid: number): void {
+  attach(eid, Prop);
+}
+
+export function addPropTypeComponent(eid: number, index: number): void {
+  attach(eid, PropType);
+  PropType.index[eid] = index;
 }
 
 export function addItemDropComponent(eid: number): void {
-  ComponentFlags.itemDrop[eid] = 1;
+  attach(eid, ItemDrop);
 }
 
 // Render
 export function addRenderableComponent(eid: number): void {
-  ComponentFlags.renderable[eid] = 1;
+  attach(eid, Renderable);
 }
 
 // Combat
 export function addCombatStatsComponent(eid: number): void {
-  ComponentFlags.combatStats[eid] = 1;
+  attach(eid, CombatStats);
 }
 
 export function addTargetComponent(eid: number): void {
-  ComponentFlags.target[eid] = 1;
-  Target.entityId[eid] = -1; // Initialize with no target
+  attach(eid, Target);
+  clearTargetEntity(eid); // Initialize with no target
 }
 
 export function addCooldownsComponent(eid: number): void {
-  ComponentFlags.cooldowns[eid] = 1;
+  attach(eid, Cooldowns);
   Cooldowns.attackTimer[eid] = 0;
   // Initialize skill cooldowns
   for (let i = 0; i < MAX_SKILL_SLOTS; i++) {
@@ -322,57 +437,73 @@ export function addCooldownsComponent(eid: number): void {
 }
 
 export function addCombatStateComponent(eid: number): void {
-  ComponentFlags.combatState[eid] = 1;
+  attach(eid, CombatState);
   CombatState.state[eid] = CombatStateEnum.IDLE;
 }
 
 // Has checks
 export function hasPosition(eid: number): boolean {
-  return ComponentFlags.position[eid] === 1;
+  return has(eid, Position);
 }
 
 export function hasVelocity(eid: number): boolean {
-  return ComponentFlags.velocity[eid] === 1;
+  return has(eid, Velocity);
 }
 
 export function hasMoveTarget(eid: number): boolean {
-  return ComponentFlags.moveTarget[eid] === 1;
+  return has(eid, MoveTarget);
 }
 
 export function hasRenderable(eid: number): boolean {
-  return ComponentFlags.renderable[eid] === 1;
+  return has(eid, Renderable);
 }
 
 export function hasSpeed(eid: number): boolean {
-  return ComponentFlags.speed[eid] === 1;
+  return has(eid, Speed);
 }
 
 export function hasPlayer(eid: number): boolean {
-  return ComponentFlags.player[eid] === 1;
+  return has(eid, Player);
 }
 
 export function hasMonster(eid: number): boolean {
-  return ComponentFlags.monster[eid] === 1;
+  return has(eid, Monster);
+}
+
+export function hasMonsterArchetype(eid: number): boolean {
+  return has(eid, MonsterArchetype);
+}
+
+export function hasDoorOpener(eid: number): boolean {
+  return has(eid, DoorOpener);
+}
+
+export function hasProp(eid: number): boolean {
+  return has(eid, Prop);
+}
+
+export function hasPropType(eid: number): boolean {
+  return has(eid, PropType);
 }
 
 export function hasItemDrop(eid: number): boolean {
-  return ComponentFlags.itemDrop[eid] === 1;
+  return has(eid, ItemDrop);
 }
 
 export function hasCombatStats(eid: number): boolean {
-  return ComponentFlags.combatStats[eid] === 1;
+  return has(eid, CombatStats);
 }
 
 export function hasTarget(eid: number): boolean {
-  return ComponentFlags.target[eid] === 1;
+  return has(eid, Target);
 }
 
 export function hasCooldowns(eid: number): boolean {
-  return ComponentFlags.cooldowns[eid] === 1;
+  return has(eid, Cooldowns);
 }
 
 export function hasCombatState(eid: number): boolean {
-  return ComponentFlags.combatState[eid] === 1;
+  return has(eid, CombatState);
 }
 
 // ============================================================================
@@ -383,11 +514,14 @@ export function hasCombatState(eid: number): boolean {
  * Clear all component data for an entity
  */
 export function clearEntityComponents(eid: number): void {
-  // Clear flags
-  for (const flag of Object.values(ComponentFlags)) {
-    flag[eid] = 0;
+  const world = getGameWorld().world;
+
+  // Detach every component (fires exit hooks on the affected queries)
+  if (entityExists(world, eid)) {
+    removeComponent(world, eid, ...getEntityComponents(world, eid));
   }
   
-  // Clear item data if exists
+  // Clear side stores keyed by entity index (the index may be recycled)
   ItemDataStore.delete(eid);
+  clearPath(eid);
 }
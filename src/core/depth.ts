@@ -0,0 +1,65 @@
+/**
+ * Depth Scaling - difficulty rules per dungeon floor
+ *
+ * Floor 1 matches the original single-floor balance; each floor down adds
+ * monster levels, extra spawns per room, better loot odds and more (and
+ * harder-hitting) hazards.
+ */
+import { Rng } from './rng';
+
+// Deepest floor a link or recording may start on
+export const MAX_DEPTH = 99;
+
+/**
+ * Parse a user-supplied floor number (e.g. a ?depth= URL parameter)
+ * @returns null unless the value is an integer from 1 to MAX_DEPTH
+ */
+export function parseDepth(value: string | null | undefined): number | null {
+  if (!value || !/^\d+$/.test(value.trim())) return null;
+  const depth = Number(value.trim());
+  return depth >= 1 && depth <= MAX_DEPTH ? depth : null;
+}
+
+/**
+ * Layout seed for a floor of a run
+ * Floor 1 uses the run seed itself, so ?seed= links keep their layout.
+ */
+export function floorSeed(runSeed: number, depth: number): number {
+  if (depth <= 1) return runSeed >>> 0;
+  return new Rng(runSeed ^ Math.imul(depth, 0x9e3779b1)).nextSeed();
+}
+
+/**
+ * Monster level on a floor (depth to depth + 2)
+ */
+export function monsterLevelForDepth(depth: number, random: Rng): number {
+  return depth + random.int(0, 2);
+}
+
+/**
+ * Extra monsters per room on top of the base 1-3 (one more every other floor, max 3)
+ */
+export function extraSpawnsForDepth(depth: number): number {
+  return Math.min(3, Math.floor((depth - 1) / 2));
+}
+
+/**
+ * Loot rarity modifier (1 = base odds, higher favours magic/rare/legendary)
+ */
+export function lootRarityForDepth(depth: number): number {
+  return 1 + (depth - 1) * 0.15;
+}
+
+/**
+ * Hazard patches scattered over a floor (the generator picks which hazards)
+ */
+export function hazardPatchesForDepth(depth: number): number {
+  return Math.min(12, 2 + depth * 2);
+}
+
+/**
+ * Hazard damage multiplier (1 on the first floor)
+ */
+export function hazardDamageForDepth(depth: number): number {
+  return 1 + (depth - 1) * 0.2;
+}
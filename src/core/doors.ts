@@ -0,0 +1,152 @@
+/**
+ * Doors - opening and closing the door tiles at corridor mouths
+ *
+ * A door is a group of adjacent door tiles spanning a corridor; they open and
+ * close together. The state lives in the tile grid itself (DOOR = closed,
+ * DOOR_OPEN = open), so saves and floor snapshots carry it with the layout.
+ */
+import { query } from 'bitecs';
+import type { World, EntityId } from 'bitecs';
+import { Position, MoveTarget } from './components';
+import { DoorOpenerQuery, SeparationQuery } from './queries';
+import { TileType } from './dungeon-generator';
+import { MapStore } from './map-store';
+import { PathStore, getPath } from './path-store';
+import { getGameWorld } from './world';
+import { gameEvents } from './events';
+import { FogOfWar } from './fog-of-war';
+
+// Distance from which the player can open or close a door by clicking it
+export const DOOR_REACH = 2.0;
+
+interface GridPoint {
+  x: number;
+  y: number;
+}
+
+function toGrid(x: number, z: number): GridPoint {
+  return {
+    x: Math.floor(x + MapStore.width / 2),
+    y: Math.floor(z + MapStore.height / 2),
+  };
+}
+
+function tileKey(tile: GridPoint): string {
+  return `${tile.x},${tile.y}`;
+}
+
+function isDoorTile(gridX: number, gridY: number): boolean {
+  const tile = MapStore.tiles[gridY]?.[gridX];
+  return tile === TileType.DOOR || tile === TileType.DOOR_OPEN;
+}
+
+/**
+ * Tiles of the door at a world position (grid coordinates, empty if there is no door)
+ */
+export function getDoorTiles(x: number, z: number): GridPoint[] {
+  const start = toGrid(x, z);
+  if (!isDoorTile(start.x, start.y)) return [];
+
+  // Flood fill through orthogonally adjacent door tiles
+  const tiles: GridPoint[] = [];
+  const seen = new Set<string>([tileKey(start)]);
+  const stack = [start];
+  while (stack.length > 0) {
+    const tile = stack.pop()!;
+    tiles.push(tile);
+    for (const [dx, dy] of [[1, 0], [-1, 0], [0, 1], [0, -1]]) {
+      const next = { x: tile.x + dx, y: tile.y + dy };
+      const key = tileKey(next);
+      if (!seen.has(key) && isDoorTile(next.x, next.y)) {
+        seen.add(key);
+        stack.push(next);
+      }
+    }
+  }
+  return tiles;
+}
+
+/**
+ * Distance from a world position to the nearest tile centre of a door
+ */
+export function distanceToDoor(tiles: readonly GridPoint[], x: number, z: number): number {
+  let nearest = Infinity;
+  for (const tile of tiles) {
+    const dx = tile.x - MapStore.width / 2 + 0.5 - x;
+    const dz = tile.y - MapStore.height / 2 + 0.5 - z;
+    nearest = Math.min(nearest, Math.sqrt(dx * dx + dz * dz));
+  }
+  return nearest;
+}
+
+/**
+ * Whether a player or monster stands in one of the door's tiles
+ */
+export function isDoorOccupied(tiles: readonly GridPoint[]): boolean {
+  const keys = new Set(tiles.map(tileKey));
+  for (const eid of query(getGameWorld().world, SeparationQuery)) {
+    if (keys.has(tileKey(toGrid(Position.x[eid], Position.z[eid])))) return true;
+  }
+  return false;
+}
+
+function setDoorState(tiles: GridPoint[], open: boolean, entity: EntityId): void {
+  for (const tile of tiles) {
+    MapStore.setTile(tile.x, tile.y, open ? TileType.DOOR_OPEN : TileType.DOOR);
+  }
+  // Doors block sight
+  FogOfWar.invalidate();
+  gameEvents.emit('door', { tiles, open, entity });
+}
+
+/**
+ * Open the door at a world position
+ * @returns false if there is no closed door there
+ */
+export function openDoor(x: number, z: number, entity: EntityId): boolean {
+  const tiles = getDoorTiles(x, z);
+  if (tiles.length === 0 || MapStore.tiles[tiles[0].y][tiles[0].x] !== TileType.DOOR) return false;
+
+  setDoorState(tiles, true, entity);
+  return true;
+}
+
+/**
+ * Close the door at a world position
+ * Paths through the door are dropped, so movers that can't open it route around.
+ * @returns false if there is no open door there or someone stands in the doorway
+ */
+export function closeDoor(x: number, z: number, entity: EntityId): boolean {
+  const tiles = getDoorTiles(x, z);
+  if (tiles.length === 0 || MapStore.tiles[tiles[0].y][tiles[0].x] !== TileType.DOOR_OPEN) return false;
+  if (isDoorOccupied(tiles)) return false;
+
+  setDoorState(tiles, false, entity);
+
+  const keys = new Set(tiles.map(tileKey));
+  for (const [eid, path] of PathStore) {
+    if (path.some(point => keys.has(tileKey(toGrid(point.x, point.y))))) {
+      PathStore.delete(eid);
+    }
+  }
+  return true;
+}
+
+/**
+ * Door System - door openers open closed doors they are about to walk into
+ * Must run before moveToTargetSystem so the mover steps into an open doorway.
+ */
+export function doorSystem(world: World): void {
+  for (const eid of query(world, DoorOpenerQuery)) {
+    if (MoveTarget.active[eid] === 0) continue;
+
+    const next = getPath(eid)?.[0];
+    if (!next || !MapStore.isClosedDoor(next.x, next.y)) continue;
+
+    const dx = next.x - Position.x[eid];
+    const dz = next.y - Position.z[eid];
+    if (Math.sqrt(dx * dx + dz * dz) <= DOOR_REACH) {
+      openDoor(next.x, next.y, eid);
+    }
+  }
+}
@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest';
+import {
+  BspDungeonGenerator,
+  TileType,
+  floodDistances,
+  connectUnreachable,
+  isPassableTile,
+  type DungeonData,
+  type DungeonGenerator,
+} from './dungeon-generator';
+import { CaveDungeonGenerator } from './cave-generator';
+import { TemplateDungeonGenerator } from './template-generator';
+import { dungeonFromAscii } from './dungeon-io';
+
+const SEEDS = [1, 42, 1234, 987654321];
+
+const GENERATORS: Array<[string, (seed: number, depth: number) => DungeonGenerator]> = [
+  ['BSP rooms', (seed, depth) => new BspDungeonGenerator(80, 80, seed, depth)],
+  ['caves', (seed, depth) => new CaveDungeonGenerator(80, 80, seed, depth)],
+  ['templates', (seed, depth) => new TemplateDungeonGenerator(80, 80, seed, depth)],
+];
+
+function isReachable(distances: Int32Array, dungeon: DungeonData, point: { x: number; y: number }): boolean {
+  return distances[point.y * dungeon.width + point.x] >= 0;
+}
+
+describe.each(GENERATORS)('%s generator', (_name, createGenerator) => {
+  it('gives the same floor for the same seed', () => {
+    expect(createGenerator(42, 4).generate()).toEqual(createGenerator(42, 4).generate());
+  });
+
+  it('gives different floors for different seeds', () => {
+    expect(createGenerator(1, 1).generate().tiles).not.toEqual(createGenerator(2, 1).generate().tiles);
+  });
+
+  it.each(SEEDS)('can reach every floor tile, the stairs and the spawns (seed %i)', seed => {
+    // Deep enough for every hazard type
+    const dungeon = createGenerator(seed, 6).generate();
+    const distances = floodDistances(dungeon.tiles, dungeon.playerStart);
+
+    for (let y = 0; y < dungeon.height; y++) {
+      for (let x = 0; x < dungeon.width; x++) {
+        if (isPassableTile(dungeon.tiles[y][x])) {
+          expect(isReachable(distances, dungeon, { x, y }), `tile ${x},${y}`).toBe(true);
+        }
+      }
+    }
+
+    expect(dungeon.stairsDown).not.toBeNull();
+    expect(isReachable(distances, dungeon, dungeon.stairsDown!)).toBe(true);
+    for (const spawn of [...dungeon.enemySpawns, ...dungeon.itemSpawns, ...dungeon.propSpawns]) {
+      expect(isReachable(distances, dungeon, spawn), `spawn ${spawn.x},${spawn.y}`).toBe(true);
+    }
+  });
+});
+
+describe('connectUnreachable', () => {
+  it('digs a corridor to a cut-off pocket', () => {
+    const { tiles, playerStart } = dungeonFromAscii([
+      '#########',
+      '#@..#...#',
+      '#...#...#',
+      '#########',
+    ].join('\n'));
+
+    expect(connectUnreachable(tiles, playerStart)).toBe(1);
+
+    // Through the dividing wall on the first row
+    expect(tiles[1][4]).toBe(TileType.FLOOR);
+    expect(floodDistances(tiles, playerStart)[1 * 9 + 7]).toBe(6);
+  });
+});
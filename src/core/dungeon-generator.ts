@@ -1,43 +1,497 @@
+import { Rng, rng } from './rng';
+import { monstersForRoom, itemsForRoom, propsForRoom, type RoomRole } from './room-roles';
+import { hazardPatchesForDepth } from './depth';
 
+// Values stay below 36: snapshots store one base-36 character per tile
 export const TileType = {
   VOID: 0,
   FLOOR: 1,
   WALL: 2,
-  DOOR: 3
+  /** Closed door */
+  DOOR: 3,
+  STAIRS_DOWN: 4,
+  DOOR_OPEN: 5,
+  // Hazards (walkable floor with an effect, see hazards.ts)
+  SPIKES: 6,
+  LAVA: 7,
+  POISON: 8,
+  MUD: 9
 } as const;
 
 export type TileType = typeof TileType[keyof typeof TileType];
 
+// Widest opening that gets a door (BSP corridors are 3 tiles wide)
+const CORRIDOR_WIDTH = 3;
+// Most treasure rooms per floor
+const MAX_TREASURE_ROOMS = 2;
+
+// Hazards a floor can have (from the floor they first appear on) and their patch sizes
+const HAZARD_PLACEMENT = [
+  { tile: TileType.SPIKES, minDepth: 1, size: { min: 1, max: 2 } },
+  { tile: TileType.MUD, minDepth: 2, size: { min: 4, max: 9 } },
+  { tile: TileType.POISON, minDepth: 3, size: { min: 3, max: 6 } },
+  { tile: TileType.LAVA, minDepth: 4, size: { min: 3, max: 7 } },
+];
+// Hazards keep at least this many steps away from the player start
+const HAZARD_SAFE_DISTANCE = 8;
+
+const NEIGHBOURS_4 = [[1, 0], [-1, 0], [0, 1], [0, -1]];
+
 export interface Room {
   x: number;
   y: number;
   w: number;
   h: number;
+  /** What the room is for (see room-roles.ts; normal if omitted) */
+  role?: RoomRole;
+}
+
+/**
+ * Monster, item or prop placement, tagged with the role of its room
+ */
+export interface RoomSpawn {
+  x: number;
+  y: number;
+  role: RoomRole;
 }
 
 export interface DungeonData {
+  /** Seed the layout was generated from (same seed + size = same dungeon) */
+  seed: number;
+  /** Floor number, 1 = top floor */
+  depth: number;
   width: number;
   height: number;
   tiles: TileType[][];
   rooms: Room[];
   playerStart: { x: number; y: number };
-  enemySpawns: { x: number; y: number }[];
+  /** Tile leading to the next floor (null if the dungeon has none) */
+  stairsDown: { x: number; y: number } | null;
+  enemySpawns: RoomSpawn[];
+  /** Items lying on the floor from the start (treasure rooms, shrines) */
+  itemSpawns: RoomSpawn[];
+  /** Breakable props (barrels, crates, urns) */
+  propSpawns: RoomSpawn[];
+}
+
+/**
+ * A dungeon layout algorithm (see biomes.ts for which floor uses which)
+ * Implementations are deterministic: the same seed, size and depth always give the same layout.
+ */
+export interface DungeonGenerator {
+  readonly seed: number;
+  readonly depth: number;
+  generate(): DungeonData;
+}
+
+/**
+ * First tile of a type (grid coordinates)
+ */
+export function findTile(tiles: TileType[][], type: TileType): { x: number; y: number } | null {
+  for (let y = 0; y < tiles.length; y++) {
+    const x = tiles[y].indexOf(type);
+    if (x !== -1) return { x, y };
+  }
+  return null;
+}
+
+/**
+ * Tile of a grid (VOID outside it)
+ */
+export function tileAt(map: TileType[][], x: number, y: number): TileType {
+  if (y < 0 || y >= map.length || x < 0 || x >= map[y].length) return TileType.VOID;
+  return map[y][x];
+}
+
+/**
+ * Tiles an entity can stand on (floor, doors, stairs)
+ */
+export function isPassableTile(tile: TileType): boolean {
+  return tile !== TileType.WALL && tile !== TileType.VOID;
+}
+
+/**
+ * Walking steps (4-connected) from a tile to every passable tile, indexed y * width + x
+ * Unreachable tiles are -1.
+ */
+export function floodDistances(map: TileType[][], start: { x: number; y: number }): Int32Array {
+  const width = map[0]?.length ?? 0;
+  const distances = new Int32Array(width * map.length).fill(-1);
+  if (!isPassableTile(tileAt(map, start.x, start.y))) return distances;
+
+  distances[start.y * width + start.x] = 0;
+  const queue = [start];
+  for (let i = 0; i < queue.length; i++) {
+    const tile = queue[i];
+    const distance = distances[tile.y * width + tile.x];
+    for (const [dx, dy] of NEIGHBOURS_4) {
+      const x = tile.x + dx;
+      const y = tile.y + dy;
+      if (!isPassableTile(tileAt(map, x, y)) || distances[y * width + x] !== -1) continue;
+      distances[y * width + x] = distance + 1;
+      queue.push({ x, y });
+    }
+  }
+  return distances;
+}
+
+/**
+ * Validation pass: connect every passable tile the start can't reach
+ * Each cut-off pocket gets a 1-wide L-shaped corridor to the nearest reachable tile.
+ * @returns number of pockets repaired
+ */
+export function connectUnreachable(map: TileType[][], start: { x: number; y: number }): number {
+  const width = map[0]?.length ?? 0;
+  let repaired = 0;
+
+  for (;;) {
+    const distances = floodDistances(map, start);
+
+    // First cut-off tile in scan order
+    let pocket: { x: number; y: number } | null = null;
+    for (let y = 0; y < map.length && !pocket; y++) {
+      for (let x = 0; x < width; x++) {
+        if (isPassableTile(map[y][x]) && distances[y * width + x] === -1) {
+          pocket = { x, y };
+          break;
+        }
+      }
+    }
+    if (!pocket) return repaired;
+
+    // Nearest reachable tile (the start itself if nothing else is)
+    let target = start;
+    let best = Infinity;
+    for (let y = 0; y < map.length; y++) {
+      for (let x = 0; x < width; x++) {
+        if (distances[y * width + x] === -1) continue;
+        const d = Math.abs(x - pocket.x) + Math.abs(y - pocket.y);
+        if (d < best) {
+          best = d;
+          target = { x, y };
+        }
+      }
+    }
+
+    for (const tile of lShapedPath(pocket, target)) {
+      if (!isPassableTile(map[tile.y][tile.x])) map[tile.y][tile.x] = TileType.FLOOR;
+    }
+    repaired++;
+  }
 }
 
-export class DungeonGenerator {
+/**
+ * Tiles of a 1-wide path going horizontally from `from`, then vertically to `to`
+ */
+function lShapedPath(from: { x: number; y: number }, to: { x: number; y: number }): { x: number; y: number }[] {
+  const tiles: { x: number; y: number }[] = [];
+  const dx = Math.sign(to.x - from.x);
+  for (let x = from.x; x !== to.x; x += dx) tiles.push({ x, y: from.y });
+  const dy = Math.sign(to.y - from.y);
+  for (let y = from.y; y !== to.y; y += dy) tiles.push({ x: to.x, y });
+  tiles.push({ x: to.x, y: to.y });
+  return tiles;
+}
+
+/**
+ * Turn each corridor opening in a room's outline into a (closed) door
+ * An opening is a run of floor tiles along one side of the room, at most a
+ * corridor wide, flanked by wall and with corridor floor beyond it.
+ */
+export function placeDoors(map: TileType[][], rooms: readonly Room[]): void {
+  for (const room of rooms) {
+    // Rows above and below the room, columns left and right of it (corners excluded)
+    placeDoorsAlong(map, room.x, room.y - 1, 1, 0, room.w, 0, -1);
+    placeDoorsAlong(map, room.x, room.y + room.h, 1, 0, room.w, 0, 1);
+    placeDoorsAlong(map, room.x - 1, room.y, 0, 1, room.h, -1, 0);
+    placeDoorsAlong(map, room.x + room.w, room.y, 0, 1, room.h, 1, 0);
+  }
+}
+
+/**
+ * Scan `length` outline tiles from (x, y) stepping (dx, dy); (ox, oy) points away from the room
+ */
+function placeDoorsAlong(
+  map: TileType[][],
+  x: number, y: number,
+  dx: number, dy: number,
+  length: number,
+  ox: number, oy: number
+): void {
+  let runStart = -1;
+  for (let i = 0; i <= length; i++) {
+    const open = i < length && tileAt(map, x + dx * i, y + dy * i) === TileType.FLOOR;
+    if (open) {
+      if (runStart === -1) runStart = i;
+      continue;
+    }
+    if (runStart === -1) continue;
+
+    const runLength = i - runStart;
+    const before = tileAt(map, x + dx * (runStart - 1), y + dy * (runStart - 1));
+    const after = tileAt(map, x + dx * i, y + dy * i);
+    let isCorridor = runLength <= CORRIDOR_WIDTH && before === TileType.WALL && after === TileType.WALL;
+    for (let j = runStart; j < i && isCorridor; j++) {
+      isCorridor = tileAt(map, x + dx * j + ox, y + dy * j + oy) === TileType.FLOOR;
+    }
+
+    if (isCorridor) {
+      for (let j = runStart; j < i; j++) {
+        map[y + dy * j][x + dx * j] = TileType.DOOR;
+      }
+    }
+    runStart = -1;
+  }
+}
+
+/**
+ * Give each room a role from its size and walking distance to the start
+ * The start room is safe, the farthest room holds the boss, the farthest dead
+ * ends (a single opening) hold treasure and the smallest room left becomes a
+ * shrine. Run after doors are placed - door tiles count as openings.
+ */
+export function assignRoomRoles(map: TileType[][], rooms: readonly Room[], start: { x: number; y: number }): void {
+  const width = map[0]?.length ?? 0;
+  const distances = floodDistances(map, start);
+  const distanceTo = (room: Room) =>
+    distances[(room.y + Math.floor(room.h / 2)) * width + room.x + Math.floor(room.w / 2)];
+
+  for (const room of rooms) room.role = 'normal';
+  const safe = rooms.find(r => start.x >= r.x && start.x < r.x + r.w && start.y >= r.y && start.y < r.y + r.h) ?? rooms[0];
+  if (!safe) return;
+  safe.role = 'safe';
+
+  // Farthest first (stable, so ties keep room order)
+  const byDistance = rooms.filter(room => room.role === 'normal').sort((a, b) => distanceTo(b) - distanceTo(a));
+  if (byDistance.length === 0) return;
+  byDistance[0].role = 'boss';
+
+  let treasureRooms = 0;
+  for (const room of byDistance) {
+    if (treasureRooms === MAX_TREASURE_ROOMS) break;
+    if (room.role !== 'normal' || countOpenings(map, room) !== 1) continue;
+    room.role = 'treasure';
+    treasureRooms++;
+  }
+
+  // Keep at least one ordinary room
+  const normal = rooms.filter(room => room.role === 'normal');
+  if (normal.length > 1) {
+    normal.reduce((smallest, room) => (room.w * room.h < smallest.w * smallest.h ? room : smallest)).role = 'shrine';
+  }
+}
+
+/**
+ * Ways into a room: runs of passable tiles along its outline (corners excluded)
+ */
+function countOpenings(map: TileType[][], room: Room): number {
+  const sides = [
+    { x: room.x, y: room.y - 1, dx: 1, dy: 0, length: room.w },
+    { x: room.x, y: room.y + room.h, dx: 1, dy: 0, length: room.w },
+    { x: room.x - 1, y: room.y, dx: 0, dy: 1, length: room.h },
+    { x: room.x + room.w, y: room.y, dx: 0, dy: 1, length: room.h },
+  ];
+
+  let openings = 0;
+  for (const side of sides) {
+    let open = false;
+    for (let i = 0; i < side.length; i++) {
+      const passable = isPassableTile(tileAt(map, side.x + side.dx * i, side.y + side.dy * i));
+      if (passable && !open) openings++;
+      open = passable;
+    }
+  }
+  return openings;
+}
+
+/**
+ * Scatter hazard patches over a floor, more and nastier ones deeper down
+ * Patches grow over plain floor inside rooms (anywhere in room-less maps),
+ * away from the start, safe rooms and the given spawn tiles. Hazards never
+ * block movement, so connectivity is unaffected.
+ */
+export function placeHazards(
+  map: TileType[][],
+  rooms: readonly Room[],
+  start: { x: number; y: number },
+  depth: number,
+  random: Rng,
+  occupied: readonly { x: number; y: number }[] = []
+): void {
+  const hazards = HAZARD_PLACEMENT.filter(hazard => depth >= hazard.minDepth);
+  if (hazards.length === 0) return;
+
+  const width = map[0]?.length ?? 0;
+  const distances = floodDistances(map, start);
+  const taken = new Set(occupied.map(tile => tile.y * width + tile.x));
+  const inRoom = (x: number, y: number) => rooms.some(r =>
+    r.role !== 'safe' && x >= r.x && x < r.x + r.w && y >= r.y && y < r.y + r.h
+  );
+  const isCandidate = (x: number, y: number) => {
+    const index = y * width + x;
+    return tileAt(map, x, y) === TileType.FLOOR
+      && !taken.has(index)
+      && distances[index] > HAZARD_SAFE_DISTANCE
+      && (rooms.length === 0 || inRoom(x, y));
+  };
+
+  const candidates: { x: number; y: number }[] = [];
+  for (let y = 0; y < map.length; y++) {
+    for (let x = 0; x < width; x++) {
+      if (isCandidate(x, y)) candidates.push({ x, y });
+    }
+  }
+  if (candidates.length === 0) return;
+
+  const patches = hazardPatchesForDepth(depth);
+  for (let i = 0; i < patches; i++) {
+    const hazard = random.pick(hazards);
+    const size = random.int(hazard.size.min, hazard.size.max);
+
+    // Grow the patch from a random tile into neighbouring candidates
+    const seed = random.pick(candidates);
+    if (!isCandidate(seed.x, seed.y)) continue;
+    const patch = [seed];
+    map[seed.y][seed.x] = hazard.tile;
+    while (patch.length < size) {
+      const frontier = patch
+        .flatMap(tile => NEIGHBOURS_4.map(([dx, dy]) => ({ x: tile.x + dx, y: tile.y + dy })))
+        .filter(tile => isCandidate(tile.x, tile.y));
+      if (frontier.length === 0) break;
+      const next = random.pick(frontier);
+      map[next.y][next.x] = hazard.tile;
+      patch.push(next);
+    }
+  }
+}
+
+/**
+ * Line room walls with breakable props (count per room role)
+ * Props stand against the room's walls, clear of doors and corridor mouths, and
+ * never cut off a tile the start could reach - they block movement until broken.
+ * @returns the props placed
+ */
+export function placeProps(
+  map: TileType[][],
+  rooms: readonly Room[],
+  start: { x: number; y: number },
+  random: Rng,
+  occupied: readonly { x: number; y: number }[] = []
+): RoomSpawn[] {
+  const width = map[0]?.length ?? 0;
+  const taken = new Set([start, ...occupied].map(tile => tile.y * width + tile.x));
+  const countReachable = () => floodDistances(map, start).reduce((count, d) => count + (d >= 0 ? 1 : 0), 0);
+  let reachable = countReachable();
+  const props: RoomSpawn[] = [];
+
+  for (const room of rooms) {
+    const count = propsForRoom(room, random);
+    if (count === 0) continue;
+
+    const inRoom = (x: number, y: number) => x >= room.x && x < room.x + room.w && y >= room.y && y < room.y + room.h;
+    // Floor against a wall, with only room floor and wall around (no doors, stairs or corridors)
+    const candidates: { x: number; y: number }[] = [];
+    for (let y = room.y; y < room.y + room.h; y++) {
+      for (let x = room.x; x < room.x + room.w; x++) {
+        if (map[y][x] !== TileType.FLOOR || taken.has(y * width + x)) continue;
+        if (!NEIGHBOURS_4.some(([dx, dy]) => tileAt(map, x + dx, y + dy) === TileType.WALL)) continue;
+        let clear = true;
+        for (let dy = -1; dy <= 1 && clear; dy++) {
+          for (let dx = -1; dx <= 1; dx++) {
+            const tile = tileAt(map, x + dx, y + dy);
+            if (tile !== TileType.WALL && !(tile === TileType.FLOOR && inRoom(x + dx, y + dy))) {
+              clear = false;
+              break;
+            }
+          }
+        }
+        if (clear) candidates.push({ x, y });
+      }
+    }
+
+    for (let placed = 0; placed < count && candidates.length > 0;) {
+      const [tile] = candidates.splice(random.int(0, candidates.length - 1), 1);
+      if (taken.has(tile.y * width + tile.x)) continue;
+
+      // Try it as a wall: keep it only if every other tile stays reachable
+      map[tile.y][tile.x] = TileType.WALL;
+      const remaining = countReachable();
+      if (remaining !== reachable - 1) {
+        map[tile.y][tile.x] = TileType.FLOOR;
+        continue;
+      }
+      reachable = remaining;
+      taken.add(tile.y * width + tile.x);
+      props.push({ ...tile, role: room.role ?? 'normal' });
+      placed++;
+    }
+  }
+
+  for (const prop of props) {
+    map[prop.y][prop.x] = TileType.FLOOR;
+  }
+  return props;
+}
+
+export interface BspGeneratorOptions {
+  /** Corridors added on top of the spanning tree, each closing a loop (default 3) */
+  loops?: number;
+}
+
+const DEFAULT_LOOPS = 3;
+// Tries to find a floor tile for each enemy spawn
+const SPAWN_ATTEMPTS = 10;
+
+// Edge of the room adjacency graph (indices into leafRooms)
+interface RoomEdge {
+  a: number;
+  b: number;
+  length: number;
+}
+
+/**
+ * Rooms generator - BSP partitioning, one room per leaf
+ *
+ * Rooms in touching BSP leaves are neighbours in a graph. Corridors follow its
+ * minimum spanning tree, plus a few extra edges so the layout has loops.
+ */
+export class BspDungeonGenerator implements DungeonGenerator {
   private width: number;
   private height: number;
   private map: TileType[][];
   private rooms: Room[] = [];
   private leafRooms: Room[] = [];
+  private random: Rng;
+  private loops: number;
+  readonly seed: number;
+  readonly depth: number;
 
-  constructor(width: number = 50, height: number = 50) {
+  /**
+   * @param seed layout seed (drawn from the game's dungeon stream if omitted)
+   * @param depth floor number - deeper floors spawn more monsters
+   */
+  constructor(
+    width: number = 50,
+    height: number = 50,
+    seed: number = rng('dungeon').nextSeed(),
+    depth: number = 1,
+    options: BspGeneratorOptions = {}
+  ) {
     this.width = width;
     this.height = height;
     this.map = [];
+    this.seed = seed >>> 0;
+    this.depth = depth;
+    this.loops = options.loops ?? DEFAULT_LOOPS;
+    this.random = new Rng(this.seed);
   }
 
   generate(): DungeonData {
+    // Restart from the seed so every call yields the same layout
+    this.random = new Rng(this.seed);
+    this.rooms = [];
+    this.leafRooms = [];
+
     // Initialize map with VOID
     this.map = Array(this.height).fill(null).map(() => Array(this.width).fill(TileType.WALL));
 
@@ -51,17 +505,33 @@ export class DungeonGenerator {
     // Connect rooms
     this.connectRooms();
 
-    // Identify spawn points
+    // Every floor tile must be reachable from the start
     const playerStart = this.getPlayerStart();
+    connectUnreachable(this.map, playerStart);
+
+    // Close corridor mouths with doors
+    placeDoors(this.map, this.leafRooms);
+
+    // Identify spawn points
+    const stairsDown = this.placeStairs(playerStart);
+    assignRoomRoles(this.map, this.leafRooms, playerStart);
     const enemySpawns = this.getEnemySpawns();
+    const itemSpawns = this.getItemSpawns();
+    const propSpawns = placeProps(this.map, this.leafRooms, playerStart, this.random, [...enemySpawns, ...itemSpawns]);
+    placeHazards(this.map, this.leafRooms, playerStart, this.depth, this.random, [...enemySpawns, ...itemSpawns, ...propSpawns]);
 
     return {
+      seed: this.seed,
+      depth: this.depth,
       width: this.width,
       height: this.height,
       tiles: this.map,
       rooms: this.leafRooms,
       playerStart,
-      enemySpawns
+      stairsDown,
+      enemySpawns,
+      itemSpawns,
+      propSpawns
     };
   }
 
@@ -72,7 +542,7 @@ export class DungeonGenerator {
     }
 
     // Random split direction
-    const splitH = Math.random() > 0.5;
+    const splitH = this.random.next() > 0.5;
     const minSize = 15; // Minimum container size
 
     if (splitH) {
@@ -81,7 +551,7 @@ export class DungeonGenerator {
         this.rooms.push(container);
         return;
       }
-      const splitY = Math.floor(Math.random() * (container.h - minSize * 2)) + minSize;
+      const splitY = Math.floor(this.random.next() * (container.h - minSize * 2)) + minSize;
       
       this.splitContainer({ x: container.x, y: container.y, w: container.w, h: splitY }, iter - 1);
       this.splitContainer({ x: container.x, y: container.y + splitY, w: container.w, h: container.h - splitY }, iter - 1);
@@ -91,7 +561,7 @@ export class DungeonGenerator {
         this.rooms.push(container);
         return;
       }
-      const splitX = Math.floor(Math.random() * (container.w - minSize * 2)) + minSize;
+      const splitX = Math.floor(this.random.next() * (container.w - minSize * 2)) + minSize;
 
       this.splitContainer({ x: container.x, y: container.y, w: splitX, h: container.h }, iter - 1);
       this.splitContainer({ x: container.x + splitX, y: container.y, w: container.w - splitX, h: container.h }, iter - 1);
@@ -100,9 +570,9 @@ export class DungeonGenerator {
 
   private createRooms() {
     for (const container of this.rooms) {
-      // Add padding
-      const roomW = Math.floor(Math.random() * (container.w - 4)) + 8;
-      const roomH = Math.floor(Math.random() * (container.h - 4)) + 8;
+      // Add padding (rooms keep a wall on every side of their leaf)
+      const roomW = Math.min(Math.floor(this.random.next() * (container.w - 4)) + 8, container.w - 2);
+      const roomH = Math.min(Math.floor(this.random.next() * (container.h - 4)) + 8, container.h - 2);
       const roomX = container.x + Math.floor((container.w - roomW) / 2);
       const roomY = container.y + Math.floor((container.h - roomH) / 2);
 
@@ -118,32 +588,94 @@ export class DungeonGenerator {
     }
   }
 
+  /**
+   * Corridors along the room graph's minimum spanning tree, plus `loops` random extra edges
+   */
   private connectRooms() {
-    // Simple connection: connect each room to the next one in the list
-    for (let i = 0; i < this.leafRooms.length - 1; i++) {
-      const roomA = this.leafRooms[i];
-      const roomB = this.leafRooms[i + 1];
-
-      const centerA = { x: Math.floor(roomA.x + roomA.w / 2), y: Math.floor(roomA.y + roomA.h / 2) };
-      const centerB = { x: Math.floor(roomB.x + roomB.w / 2), y: Math.floor(roomB.y + roomB.h / 2) };
-
-      // Horizontal Corridor
-      const startX = Math.min(centerA.x, centerB.x);
-      const endX = Math.max(centerA.x, centerB.x);
-      for (let x = startX; x <= endX; x++) {
-        this.map[centerA.y - 1][x] = TileType.FLOOR;
-        this.map[centerA.y][x] = TileType.FLOOR;
-        this.map[centerA.y + 1][x] = TileType.FLOOR;
+    const edges = this.roomEdges().sort((e1, e2) => e1.length - e2.length || e1.a - e2.a || e1.b - e2.b);
+
+    // Kruskal: shortest edges first, skipping any that would close a cycle
+    const parent = this.leafRooms.map((_, i) => i);
+    const find = (i: number): number => {
+      while (parent[i] !== i) {
+        parent[i] = parent[parent[i]];
+        i = parent[i];
       }
+      return i;
+    };
 
-      // Vertical Corridor
-      const startY = Math.min(centerA.y, centerB.y);
-      const endY = Math.max(centerA.y, centerB.y);
-      for (let y = startY; y <= endY; y++) {
-        this.map[y][centerB.x - 1] = TileType.FLOOR;
-        this.map[y][centerB.x] = TileType.FLOOR;
-        this.map[y][centerB.x + 1] = TileType.FLOOR;
+    const spare: RoomEdge[] = [];
+    for (const edge of edges) {
+      const rootA = find(edge.a);
+      const rootB = find(edge.b);
+      if (rootA === rootB) {
+        spare.push(edge);
+        continue;
       }
+      parent[rootA] = rootB;
+      this.carveCorridor(this.leafRooms[edge.a], this.leafRooms[edge.b]);
+    }
+
+    // Loops: a few of the remaining edges, picked at random
+    for (let i = 0; i < this.loops && spare.length > 0; i++) {
+      const [edge] = spare.splice(this.random.int(0, spare.length - 1), 1);
+      this.carveCorridor(this.leafRooms[edge.a], this.leafRooms[edge.b]);
+    }
+  }
+
+  /**
+   * Pairs of rooms whose BSP leaves share a border, weighted by centre distance
+   */
+  private roomEdges(): RoomEdge[] {
+    const edges: RoomEdge[] = [];
+    const overlaps = (start1: number, size1: number, start2: number, size2: number) =>
+      start1 < start2 + size2 && start2 < start1 + size1;
+
+    for (let a = 0; a < this.rooms.length; a++) {
+      for (let b = a + 1; b < this.rooms.length; b++) {
+        const leafA = this.rooms[a];
+        const leafB = this.rooms[b];
+        const sideBySide = (leafA.x + leafA.w === leafB.x || leafB.x + leafB.w === leafA.x)
+          && overlaps(leafA.y, leafA.h, leafB.y, leafB.h);
+        const stacked = (leafA.y + leafA.h === leafB.y || leafB.y + leafB.h === leafA.y)
+          && overlaps(leafA.x, leafA.w, leafB.x, leafB.w);
+        if (!sideBySide && !stacked) continue;
+
+        const centerA = this.roomCenter(this.leafRooms[a]);
+        const centerB = this.roomCenter(this.leafRooms[b]);
+        edges.push({ a, b, length: Math.abs(centerA.x - centerB.x) + Math.abs(centerA.y - centerB.y) });
+      }
+    }
+    return edges;
+  }
+
+  private roomCenter(room: Room) {
+    return { x: Math.floor(room.x + room.w / 2), y: Math.floor(room.y + room.h / 2) };
+  }
+
+  /**
+   * 3-wide L-shaped corridor between two room centres
+   */
+  private carveCorridor(roomA: Room, roomB: Room) {
+    const centerA = this.roomCenter(roomA);
+    const centerB = this.roomCenter(roomB);
+
+    // Horizontal Corridor
+    const startX = Math.min(centerA.x, centerB.x);
+    const endX = Math.max(centerA.x, centerB.x);
+    for (let x = startX; x <= endX; x++) {
+      this.map[centerA.y - 1][x] = TileType.FLOOR;
+      this.map[centerA.y][x] = TileType.FLOOR;
+      this.map[centerA.y + 1][x] = TileType.FLOOR;
+    }
+
+    // Vertical Corridor
+    const startY = Math.min(centerA.y, centerB.y);
+    const endY = Math.max(centerA.y, centerB.y);
+    for (let y = startY; y <= endY; y++) {
+      this.map[y][centerB.x - 1] = TileType.FLOOR;
+      this.map[y][centerB.x] = TileType.FLOOR;
+      this.map[y][centerB.x + 1] = TileType.FLOOR;
     }
   }
 
@@ -156,20 +688,65 @@ export class DungeonGenerator {
     };
   }
 
-  private getEnemySpawns() {
-    const spawns: { x: number; y: number }[] = [];
-    // Skip first room (safe zone)
-    for (let i = 1; i < this.leafRooms.length; i++) {
-        const room = this.leafRooms[i];
-        // 1-3 enemies per room
-        const count = Math.floor(Math.random() * 3) + 1;
-        for (let j = 0; j < count; j++) {
-            spawns.push({
-                x: room.x + Math.floor(Math.random() * room.w),
-                y: room.y + Math.floor(Math.random() * room.h)
-            });
-        }
+  private placeStairs(playerStart: { x: number; y: number }) {
+    // Center of the room the longest walk away from the start
+    const distances = floodDistances(this.map, playerStart);
+    let room = this.leafRooms[this.leafRooms.length - 1];
+    let farthest = -1;
+    for (const candidate of this.leafRooms) {
+      const center = this.roomCenter(candidate);
+      const distance = distances[center.y * this.width + center.x];
+      if (distance > farthest) {
+        farthest = distance;
+        room = candidate;
+      }
+    }
+    const stairs = this.roomCenter(room);
+
+    // Single-room dungeon: keep the stairs off the start tile
+    if (this.leafRooms.length === 1) {
+      stairs.x = room.x + 1;
+      stairs.y = room.y + 1;
+    }
+
+    this.map[stairs.y][stairs.x] = TileType.STAIRS_DOWN;
+    return stairs;
+  }
+
+  private getEnemySpawns(): RoomSpawn[] {
+    const spawns: RoomSpawn[] = [];
+    // Count per room role (none in the safe start room), more on deeper floors
+    for (const room of this.leafRooms) {
+      const count = monstersForRoom(room, this.depth, this.random);
+      for (let j = 0; j < count; j++) {
+        const tile = this.randomFloorTile(room);
+        if (tile) spawns.push({ ...tile, role: room.role ?? 'normal' });
+      }
     }
     return spawns;
   }
+
+  private getItemSpawns(): RoomSpawn[] {
+    const spawns: RoomSpawn[] = [];
+    for (const room of this.leafRooms) {
+      const count = itemsForRoom(room, this.random);
+      for (let j = 0; j < count; j++) {
+        const tile = this.randomFloorTile(room);
+        if (tile) spawns.push({ ...tile, role: room.role ?? 'normal' });
+      }
+    }
+    return spawns;
+  }
+
+  /**
+   * Random plain floor tile of a room (re-rolls stairs and doors; null after a few misses)
+   */
+  private randomFloorTile(room: Room): { x: number; y: number } | null {
+    for (let attempt = 0; attempt < SPAWN_ATTEMPTS; attempt++) {
+      const x = room.x + Math.floor(this.random.next() * room.w);
+      const y = room.y + Math.floor(this.random.next() * room.h);
+      if (this.map[y][x] === TileType.FLOOR) return { x, y };
+    }
+    return null;
+  }
 }
@@ -0,0 +1,236 @@
+/**
+ * Dungeon I/O - DungeonData to and from map files
+ *
+ * ASCII map: one line per tile row, top row first (grid y = line number).
+ *
+ *   '#' wall            '.' floor           ' ' void (outside the map)
+ *   '+' closed door     "'" open door       '>' stairs down
+ *   '^' spike trap      '~' lava            ';' poison pool
+ *   ',' mud
+ *   '@' player start    'm' monster spawn   '$' item spawn
+ *   'o' breakable prop
+ *
+ * '@', 'm', '$' and 'o' stand on floor. Exactly one '@' is required, and short
+ * lines are padded with void (editors strip trailing spaces). ASCII maps
+ * have no rooms, so every spawn is 'normal' and only one marker fits a tile -
+ * use the JSON format for exact round-trips.
+ *
+ * JSON map (DungeonFile): the same rows (markers optional) plus the data the
+ * grid can't hold:
+ *
+ *   {
+ *     "version": 1,
+ *     "seed": 0,                 // optional, default 0
+ *     "depth": 1,                // optional, default 1 (picks the biome palette)
+ *     "rows": ["#####", "#@.m#", "#####"],
+ *     "rooms": [{ "x": 1, "y": 1, "w": 3, "h": 1, "role": "safe" }],   // optional
+ *     "playerStart": { "x": 1, "y": 1 },                               // optional if rows have '@'
+ *     "enemySpawns": [{ "x": 3, "y": 1, "role": "normal" }],           // optional
+ *     "itemSpawns": [],                                                // optional
+ *     "propSpawns": []                                                 // optional
+ *   }
+ *
+ * Spawns from 'm'/'$'/'o' markers get the role of the room they're in and are
+ * added to the listed ones.
+ */
+import {
+  TileType,
+  findTile,
+  isPassableTile,
+  tileAt,
+  type DungeonData,
+  type Room,
+  type RoomSpawn,
+} from './dungeon-generator';
+import { ROOM_ROLE_RULES, roomRoleAt, type RoomRole } from './room-roles';
+
+export const DUNGEON_FILE_VERSION = 1;
+
+export interface DungeonFile {
+  version: number;
+  seed?: number;
+  depth?: number;
+  /** ASCII map rows (see the legend above) */
+  rows: string[];
+  rooms?: Room[];
+  playerStart?: { x: number; y: number };
+  enemySpawns?: RoomSpawn[];
+  itemSpawns?: RoomSpawn[];
+  propSpawns?: RoomSpawn[];
+}
+
+export interface AsciiMapOptions {
+  /** Layout seed recorded in the dungeon (default 0) */
+  seed?: number;
+  /** Floor number (default 1) */
+  depth?: number;
+}
+
+interface GridPoint {
+  x: number;
+  y: number;
+}
+
+const TILE_CHARS: Record<TileType, string> = {
+  [TileType.VOID]: ' ',
+  [TileType.FLOOR]: '.',
+  [TileType.WALL]: '#',
+  [TileType.DOOR]: '+',
+  [TileType.STAIRS_DOWN]: '>',
+  [TileType.DOOR_OPEN]: "'",
+  [TileType.SPIKES]: '^',
+  [TileType.LAVA]: '~',
+  [TileType.POISON]: ';',
+  [TileType.MUD]: ',',
+};
+
+const CHAR_TILES = new Map<string, TileType>(
+  Object.entries(TILE_CHARS).map(([tile, char]) => [char, Number(tile) as TileType])
+);
+
+const START_MARKER = '@';
+const MONSTER_MARKER = 'm';
+const ITEM_MARKER = '$';
+const PROP_MARKER = 'o';
+
+/**
+ * ASCII map of a dungeon (lines joined with '\n')
+ */
+export function dungeonToAscii(dungeon: DungeonData): string {
+  const grid = dungeon.tiles.map(row => row.map(tile => TILE_CHARS[tile] ?? ' '));
+  const mark = (point: GridPoint, marker: string) => {
+    if (grid[point.y]?.[point.x] === TILE_CHARS[TileType.FLOOR]) grid[point.y][point.x] = marker;
+  };
+
+  for (const spawn of dungeon.propSpawns) mark(spawn, PROP_MARKER);
+  for (const spawn of dungeon.itemSpawns) mark(spawn, ITEM_MARKER);
+  for (const spawn of dungeon.enemySpawns) mark(spawn, MONSTER_MARKER);
+  mark(dungeon.playerStart, START_MARKER);
+
+  return grid.map(row => row.join('')).join('\n');
+}
+
+/**
+ * Parse an ASCII map
+ * @throws if the map is empty, uses unknown characters or has no single '@'
+ */
+export function dungeonFromAscii(text: string, options: AsciiMapOptions = {}): DungeonData {
+  // Ignore a trailing newline, and Windows line endings
+  const rows = text.replace(/\r/g, '').replace(/\n+$/, '').split('\n');
+  return buildDungeon({ version: DUNGEON_FILE_VERSION, seed: options.seed, depth: options.depth, rows }, 'ASCII map');
+}
+
+/**
+ * JSON map file of a dungeon (pretty-printed, rows kept one per line)
+ */
+export function dungeonToJson(dungeon: DungeonData): string {
+  const file: DungeonFile = {
+    version: DUNGEON_FILE_VERSION,
+    seed: dungeon.seed,
+    depth: dungeon.depth,
+    rows: dungeon.tiles.map(row => row.map(tile => TILE_CHARS[tile] ?? ' ').join('')),
+    rooms: dungeon.rooms,
+    playerStart: dungeon.playerStart,
+    enemySpawns: dungeon.enemySpawns,
+    itemSpawns: dungeon.itemSpawns,
+    propSpawns: dungeon.propSpawns,
+  };
+  return JSON.stringify(file, null, 2);
+}
+
+/**
+ * Parse a JSON map file
+ * @throws if the JSON is malformed, the version is unsupported or the map is invalid
+ */
+export function dungeonFromJson(json: string): DungeonData {
+  const file = JSON.parse(json) as DungeonFile;
+  if (file?.version !== DUNGEON_FILE_VERSION) {
+    throw new Error(`Unsupported dungeon file version ${file?.version}`);
+  }
+  if (!Array.isArray(file.rows) || file.rows.some(row => typeof row !== 'string')) {
+    throw new Error('dungeon file: "rows" must be an array of strings');
+  }
+  return buildDungeon(file, 'dungeon file');
+}
+
+/**
+ * Parse a map in either format (JSON if it starts with '{')
+ */
+export function parseDungeonMap(text: string): DungeonData {
+  return text.trimStart().startsWith('{') ? dungeonFromJson(text) : dungeonFromAscii(text);
+}
+
+/**
+ * Validate a map file and turn it into dungeon data
+ * @param source prefix for error messages
+ */
+function buildDungeon(file: DungeonFile, source: string): DungeonData {
+  const fail = (reason: string): never => {
+    throw new Error(`${source}: ${reason}`);
+  };
+
+  const { rows } = file;
+  const width = Math.max(0, ...rows.map(row => row.length));
+  const height = rows.length;
+  if (width === 0) fail('is empty');
+
+  const tiles: TileType[][] = [];
+  const starts: GridPoint[] = [];
+  const monsterMarkers: GridPoint[] = [];
+  const itemMarkers: GridPoint[] = [];
+  const propMarkers: GridPoint[] = [];
+
+  rows.forEach((line, y) => {
+    tiles.push(Array.from(line.padEnd(width, TILE_CHARS[TileType.VOID]), (char, x) => {
+      switch (char) {
+        case START_MARKER: starts.push({ x, y }); return TileType.FLOOR;
+        case MONSTER_MARKER: monsterMarkers.push({ x, y }); return TileType.FLOOR;
+        case ITEM_MARKER: itemMarkers.push({ x, y }); return TileType.FLOOR;
+        case PROP_MARKER: propMarkers.push({ x, y }); return TileType.FLOOR;
+      }
+      const tile = CHAR_TILES.get(char);
+      return tile ?? fail(`unknown tile '${char}' at ${x},${y}`);
+    }));
+  });
+
+  if (starts.length > 1) fail(`has ${starts.length} player starts ('${START_MARKER}')`);
+  const playerStart = file.playerStart ?? starts[0] ?? fail(`has no player start ('${START_MARKER}')`);
+  if (!isPassableTile(tileAt(tiles, playerStart.x, playerStart.y))) {
+    fail(`player start ${playerStart.x},${playerStart.y} is not walkable`);
+  }
+
+  const rooms = (file.rooms ?? []).map(room => ({ ...room }));
+  for (const room of rooms) {
+    if (room.role !== undefined && !(room.role in ROOM_ROLE_RULES)) fail(`unknown room role "${room.role}"`);
+    if (room.x < 0 || room.y < 0 || room.w < 1 || room.h < 1 || room.x + room.w > width || room.y + room.h > height) {
+      fail(`room ${room.x},${room.y} ${room.w}x${room.h} is outside the map`);
+    }
+  }
+
+  // Listed spawns first, then the map's markers (in the role of their room)
+  const toSpawns = (listed: RoomSpawn[] | undefined, markers: GridPoint[], kind: string): RoomSpawn[] => {
+    const spawns = [
+      ...(listed ?? []).map(spawn => ({ x: spawn.x, y: spawn.y, role: spawn.role ?? 'normal' as RoomRole })),
+      ...markers.map(marker => ({ ...marker, role: roomRoleAt(rooms, marker.x, marker.y) })),
+    ];
+    for (const spawn of spawns) {
+      if (!(spawn.role in ROOM_ROLE_RULES)) fail(`unknown ${kind} spawn role "${spawn.role}"`);
+      if (!isPassableTile(tileAt(tiles, spawn.x, spawn.y))) fail(`${kind} spawn ${spawn.x},${spawn.y} is not walkable`);
+    }
+    return spawns;
+  };
+
+  return {
+    seed: (file.seed ?? 0) >>> 0,
+    depth: Math.max(1, Math.floor(file.depth ?? 1)),
+    width,
+    height,
+    tiles,
+    rooms,
+    playerStart: { x: playerStart.x, y: playerStart.y },
+    stairsDown: findTile(tiles, TileType.STAIRS_DOWN),
+    enemySpawns: toSpawns(file.enemySpawns, monsterMarkers, 'enemy'),
+    itemSpawns: toSpawns(file.itemSpawns, itemMarkers, 'item'),
+    propSpawns: toSpawns(file.propSpawns, propMarkers, 'prop'),
+  };
+}
@@ -0,0 +1,212 @@
+/**
+ * Entity Factory - builds the player, monsters and props from components
+ * Has no render or DOM dependencies, so the game and the headless
+ * simulation spawn identical entities.
+ */
+import type { EntityId } from 'bitecs';
+import { getGameWorld, handleIndex } from './world';
+import {
+  Position,
+  Speed,
+  CombatStats,
+  Renderable,
+  addPositionComponent,
+  addVelocityComponent,
+  addMoveTargetComponent,
+  addRenderableComponent,
+  addSpeedComponent,
+  addPlayerComponent,
+  addMonsterComponent,
+  addMonsterArchetypeComponent,
+  addDoorOpenerComponent,
+  addCombatStatsComponent,
+  addTargetComponent,
+  addCooldownsComponent,
+  addCombatStateComponent,
+  addPropComponent,
+  addPropTypeComponent,
+  initBaseStats,
+  initEquipmentSlots,
+} from './components';
+import { addProgressionComponent } from './progression';
+import {
+  getMonsterArchetype,
+  getMonsterArchetypeIndex,
+  getDefaultMonsterArchetype,
+  scaleMonsterStats,
+  archetypeColor,
+} from './monster-archetypes';
+import { getPropType, getPropTypeIndex, getPropTypes } from './prop-types';
+import { MapStore } from './map-store';
+
+// Color in linear RGB (what the render system feeds to setRGB)
+const PLAYER_COLOR = { r: 0, g: 1, b: 0.2462 }; // #00ff88
+
+/**
+ * Movement, render and combat components shared by players and monsters
+ */
+function addActorComponents(eid: EntityId, color: { r: number; g: number; b: number }): void {
+  // Movement components
+  addPositionComponent(eid);
+  addVelocityComponent(eid);
+  addMoveTargetComponent(eid);
+  addSpeedComponent(eid);
+
+  // Render
+  addRenderableComponent(eid);
+  Renderable.colorR[eid] = color.r;
+  Renderable.colorG[eid] = color.g;
+  Renderable.colorB[eid] = color.b;
+
+  // Combat
+  addCombatStatsComponent(eid);
+  addTargetComponent(eid);
+  addCooldownsComponent(eid);
+  addCombatStateComponent(eid);
+}
+
+/**
+ * Create player entity with all combat components
+ */
+export function createPlayer(): EntityId {
+  const gameWorld = getGameWorld();
+  const eid = handleIndex(gameWorld.createEntity());
+
+  addActorComponents(eid, PLAYER_COLOR);
+  addPlayerComponent(eid);
+  addDoorOpenerComponent(eid);
+
+  // Set initial values
+  Position.x[eid] = 0;
+  Position.y[eid] = 0;
+  Position.z[eid] = 0;
+  Speed.value[eid] = 8;
+
+  // Player stats
+  CombatStats.hp[eid] = 100;
+  CombatStats.maxHp[eid] = 100;
+  CombatStats.mp[eid] = 50;
+  CombatStats.maxMp[eid] = 50;
+  CombatStats.attackSpeed[eid] = 1.5; // 1.5 attacks per second
+  CombatStats.attackRange[eid] = 2.0;
+  CombatStats.damageMin[eid] = 10;
+  CombatStats.damageMax[eid] = 20;
+  CombatStats.armor[eid] = 5;
+  CombatStats.level[eid] = 1;
+  CombatStats.healthRegen[eid] = 5; // 5 HP per second
+
+  // Store initial base stats (used for stat recalculation)
+  initBaseStats(eid, {
+    maxHp: 100,
+    maxMp: 50,
+    attackSpeed: 1.5,
+    attackRange: 2.0,
+    damageMin: 10,
+    damageMax: 20,
+    armor: 5,
+    healthRegen: 5,
+  });
+
+  // Progression (XP/Level system)
+  addProgressionComponent(eid, 1);
+
+  // Equipment slots
+  initEquipmentSlots(eid);
+
+  return eid;
+}
+
+/**
+ * Spawn a monster from an archetype in monsters.json
+ * @param archetypeId defaults to the first archetype in the file
+ * @throws if the archetype id is unknown
+ */
+export function spawnMonster(x: number, z: number, level: number = 1, archetypeId?: string): EntityId {
+  const archetype = archetypeId === undefined ? getDefaultMonsterArchetype() : getMonsterArchetype(archetypeId);
+  if (!archetype) {
+    throw new Error(`Unknown monster archetype "${archetypeId}"`);
+  }
+
+  const gameWorld = getGameWorld();
+  const eid = handleIndex(gameWorld.createEntity());
+
+  addActorComponents(eid, archetypeColor(archetype));
+  addMonsterComponent(eid);
+  addMonsterArchetypeComponent(eid, getMonsterArchetypeIndex(archetype.id));
+  if (archetype.canOpenDoors) {
+    addDoorOpenerComponent(eid);
+  }
+
+  // Set position
+  Position.x[eid] = x;
+  Position.y[eid] = 0;
+  Position.z[eid] = z;
+
+  // Archetype stats scaled to the monster's level
+  const stats = scaleMonsterStats(archetype, level);
+  Speed.value[eid] = stats.moveSpeed;
+  CombatStats.hp[eid] = stats.maxHp;
+  CombatStats.maxHp[eid] = stats.maxHp;
+  CombatStats.mp[eid] = 0;
+  CombatStats.maxMp[eid] = 0;
+  CombatStats.attackSpeed[eid] = stats.attackSpeed;
+  CombatStats.attackRange[eid] = stats.attackRange;
+  CombatStats.damageMin[eid] = stats.damageMin;
+  CombatStats.damageMax[eid] = stats.damageMax;
+  CombatStats.armor[eid] = stats.armor;
+  CombatStats.level[eid] = level;
+  CombatStats.healthRegen[eid] = 0;
+
+  return eid;
+}
+
+/**
+ * Spawn a breakable prop from a type in props.json
+ * Props have health but never attack or move; they block their tile for
+ * pathing until broken.
+ * @param level item level of the loot it drops
+ * @param typeId defaults to the first prop type in the file
+ * @throws if the prop type id is unknown
+ */
+export function spawnProp(x: number, z: number, level: number = 1, typeId?: string): EntityId {
+  const propType = typeId === undefined ? getPropTypes()[0] : getPropType(typeId);
+  if (!propType) {
+    throw new Error(`Unknown prop type "${typeId}"`);
+  }
+
+  const gameWorld = getGameWorld();
+  const eid = handleIndex(gameWorld.createEntity());
+
+  addPositionComponent(eid);
+  addRenderableComponent(eid);
+  const color = archetypeColor(propType);
+  Renderable.colorR[eid] = color.r;
+  Renderable.colorG[eid] = color.g;
+  Renderable.colorB[eid] = color.b;
+
+  addCombatStatsComponent(eid);
+  addCombatStateComponent(eid);
+  addPropComponent(eid);
+  addPropTypeComponent(eid, getPropTypeIndex(propType.id));
+
+  Position.x[eid] = x;
+  Position.y[eid] = 0;
+  Position.z[eid] = z;
+
+  CombatStats.hp[eid] = propType.health;
+  CombatStats.maxHp[eid] = propType.health;
+  CombatStats.mp[eid] = 0;
+  CombatStats.maxMp[eid] = 0;
+  CombatStats.attackSpeed[eid] = 0;
+  CombatStats.attackRange[eid] = 0;
+  CombatStats.damageMin[eid] = 0;
+  CombatStats.damageMax[eid] = 0;
+  CombatStats.armor[eid] = propType.armor;
+  CombatStats.level[eid] = level;
+  CombatStats.healthRegen[eid] = 0;
+
+  // Freed again when the prop leaves PropQuery (see Simulation)
+  MapStore.setOccupied(x, z, true);
+
+  return eid;
+}
@@ -17,6 +17,7 @@ import {
   addItemToInventory,
 } from '../stores/inventory';
 import { get } from 'svelte/store';
+import { gameEvents } from './events';
 
 // Equipment change callback for stat recalculation
 type EquipmentChangeCallback = (playerEid: EntityId) => void;
@@ -139,6 +140,7 @@ export function equipItem(
   ItemDataStore.set(itemEid, itemData);
   
   // console.log(`🛡️ Equipped: ${itemData.name} → ${getSlotName(targetSlot)}`);
+  gameEvents.emit('equip', { entity: playerEid, slot: targetSlot, itemData, equipped: true });
   
   // Recalculate stats
   triggerStatRecalc(playerEid);
@@ -178,6 +180,7 @@ export function unequipItem(
   clearEquippedItem(playerEid, equipSlot);
   
   // console.log(`📦 Unequipped: ${itemData.name} → Inventory`);
+  gameEvents.emit('equip', { entity: playerEid, slot: equipSlot, itemData, equipped: false });
   
   // Recalculate stats
   triggerStatRecalc(playerEid);
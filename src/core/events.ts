@@ -0,0 +1,203 @@
+/**
+ * Game Event Bus - typed events shared by gameplay, UI and effects
+ *
+ * Events are queued when emitted. Systems later in the same tick can read()
+ * the queue (e.g. the damage system reads this tick's attacks), and flush()
+ * at the end of the tick delivers everything to subscribers in emission order.
+ */
+import type { EntityId } from 'bitecs';
+import type { ItemData } from './components';
+import type { DungeonData } from './dungeon-generator';
+
+// ============================================================================
+// EVENT PAYLOADS
+// ============================================================================
+
+/**
+ * Emitted when an attack hits
+ */
+export interface AttackEvent {
+  attacker: EntityId;
+  target: EntityId;
+  damage: number;
+}
+
+/**
+ * Emitted when damage is dealt
+ */
+export interface DamageEvent {
+  target: EntityId;
+  attacker: EntityId;
+  damage: number;
+  isCrit: boolean;
+  position: { x: number; y: number; z: number };
+}
+
+/**
+ * Emitted when an entity dies
+ */
+export interface DeathEvent {
+  entity: EntityId;
+  killedBy: EntityId;
+  position: { x: number; y: number; z: number };
+  level: number;
+  /** Monster archetype id (null for non-monsters) */
+  archetype: string | null;
+  /** Prop type id (null for non-props) */
+  prop: string | null;
+}
+
+/**
+ * Emitted when an entity gains a level
+ */
+export interface LevelUpEvent {
+  entity: EntityId;
+  newLevel: number;
+  position: { x: number; y: number; z: number };
+}
+
+/**
+ * Emitted when an item is moved from the ground into the inventory
+ */
+export interface PickupEvent {
+  entity: EntityId;
+  itemEid: EntityId;
+  itemData: ItemData;
+  inventorySlot: number;
+}
+
+/**
+ * Emitted when an item is equipped or unequipped
+ */
+export interface EquipEvent {
+  entity: EntityId;
+  slot: number;
+  itemData: ItemData;
+  equipped: boolean;
+}
+
+/**
+ * Emitted after a save attempt
+ */
+export interface SaveEvent {
+  entity: EntityId;
+  userId: string;
+  success: boolean;
+}
+
+/**
+ * Emitted after the player takes the stairs and the next floor is loaded
+ */
+export interface FloorChangeEvent {
+  depth: number;
+  dungeon: DungeonData;
+}
+
+/**
+ * Emitted when a door opens or closes (tiles in grid coordinates)
+ */
+export interface DoorEvent {
+  tiles: { x: number; y: number }[];
+  open: boolean;
+  /** Entity that opened or closed it */
+  entity: EntityId;
+}
+
+export interface GameEventMap {
+  attack: AttackEvent;
+  damage: DamageEvent;
+  death: DeathEvent;
+  levelUp: LevelUpEvent;
+  pickup: PickupEvent;
+  equip: EquipEvent;
+  save: SaveEvent;
+  floorChange: FloorChangeEvent;
+  door: DoorEvent;
+}
+
+export type GameEventType = keyof GameEventMap;
+
+// ============================================================================
+// EVENT BUS
+// ============================================================================
+
+type Handler<T> = (event: T) => void;
+
+export class EventBus<TMap extends object> {
+  private handlers = new Map<keyof TMap, Set<Handler<never>>>();
+  private queued = new Map<keyof TMap, unknown[]>();
+  private order: Array<{ type: keyof TMap; event: unknown }> = [];
+
+  /**
+   * Queue an event for this tick
+   */
+  emit<K extends keyof TMap>(type: K, event: TMap[K]): void {
+    let events = this.queued.get(type);
+    if (!events) {
+      events = [];
+      this.queued.set(type, events);
+    }
+    events.push(event);
+    this.order.push({ type, event });
+  }
+
+  /**
+   * Events of a type emitted since the last flush (not consumed)
+   */
+  read<K extends keyof TMap>(type: K): readonly TMap[K][] {
+    return (this.queued.get(type) as TMap[K][] | undefined) ?? [];
+  }
+
+  /**
+   * Subscribe to an event type
+   * @returns unsubscribe function
+   */
+  on<K extends keyof TMap>(type: K, handler: Handler<TMap[K]>): () => void {
+    let set = this.handlers.get(type);
+    if (!set) {
+      set = new Set();
+      this.handlers.set(type, set);
+    }
+    set.add(handler as Handler<never>);
+    return () => {
+      set.delete(handler as Handler<never>);
+    };
+  }
+
+  /**
+   * Deliver queued events to subscribers and clear the queue
+   * Events emitted by handlers during the flush are delivered on the next one
+   */
+  flush(): void {
+    const order = this.order;
+    this.order = [];
+    this.queued = new Map();
+
+    for (const { type, event } of order) {
+      const set = this.handlers.get(type);
+      if (!set) continue;
+      for (const handler of set) {
+        (handler as Handler<unknown>)(event);
+      }
+    }
+  }
+
+  /**
+   * Drop queued events without delivering them
+   */
+  clear(): void {
+    this.order = [];
+    this.queued = new Map();
+  }
+
+  /**
+   * Drop queued events and every subscriber (a new run starts from scratch)
+   */
+  reset(): void {
+    this.clear();
+    this.handlers.clear();
+  }
+}
+
+// Singleton game event bus
+export const gameEvents = new EventBus<GameEventMap>();
@@ -0,0 +1,57 @@
+/**
+ * Fixed Timestep - accumulates variable frame time into fixed simulation ticks
+ * Simulation systems always see the same delta, so combat and movement do not
+ * depend on frame rate. Rendering interpolates between the last two ticks.
+ */
+
+export const TICK_RATE = 60;
+export const FIXED_DELTA = 1 / TICK_RATE;
+
+// Clamp long frames (tab switch, debugger pause) to avoid a spiral of death
+const MAX_FRAME_DELTA = 0.25;
+const MAX_TICKS_PER_FRAME = 8;
+
+export class FixedTimestep {
+  readonly step: number;
+  private accumulator = 0;
+  private tickCount = 0;
+
+  constructor(step: number = FIXED_DELTA) {
+    this.step = step;
+  }
+
+  /**
+   * Number of ticks simulated so far
+   */
+  get tick(): number {
+    return this.tickCount;
+  }
+
+  /**
+   * Consume a frame's worth of time, running as many fixed ticks as fit
+   * @returns interpolation factor (0..1) between the previous and current tick
+   */
+  advance(frameDelta: number, onTick: (fixedDelta: number) => void): number {
+    this.accumulator += Math.min(Math.max(frameDelta, 0), MAX_FRAME_DELTA);
+
+    let ticks = 0;
+    while (this.accumulator >= this.step && ticks < MAX_TICKS_PER_FRAME) {
+      onTick(this.step);
+      this.accumulator -= this.step;
+      this.tickCount++;
+      ticks++;
+    }
+
+    // Still behind after the cap - drop the backlog instead of catching up
+    if (ticks === MAX_TICKS_PER_FRAME && this.accumulator >= this.step) {
+      this.accumulator = 0;
+    }
+
+    return this.accumulator / this.step;
+  }
+
+  reset(): void {
+    this.accumulator = 0;
+    this.tickCount = 0;
+  }
+}
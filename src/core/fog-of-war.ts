@@ -0,0 +1,146 @@
+/**
+ * Fog of War - tiles the player has explored and tiles they can see right now
+ *
+ * Vision is recomputed when the player reaches another tile or the map
+ * changes (a door opens or closes). Tiles within VISION_RADIUS with a clear
+ * grid line to the player are visible, and stay explored for the rest of the
+ * floor. Walls and closed doors block sight but are themselves visible.
+ */
+import type { EntityId } from 'bitecs';
+import { Position } from './components';
+import { TileType } from './dungeon-generator';
+import { MapStore } from './map-store';
+
+// Sight range in tiles
+export const VISION_RADIUS = 10;
+
+function blocksSight(tile: TileType | undefined): boolean {
+  return tile === undefined || tile === TileType.WALL || tile === TileType.DOOR || tile === TileType.VOID;
+}
+
+export const FogOfWar = {
+  width: 0,
+  height: 0,
+  /** 1 for every tile ever seen on this floor (index y * width + x) */
+  explored: new Uint8Array(0) as Uint8Array,
+  /** 1 for tiles the player sees right now */
+  visible: new Uint8Array(0) as Uint8Array,
+  /** Bumped on every recompute, so renderers know when to refresh */
+  version: 0,
+  // Tile vision was last computed from (-1 = recompute on the next update)
+  originX: -1,
+  originY: -1,
+
+  /**
+   * Reset for a map (everything unexplored unless a saved mask is given)
+   */
+  init(width: number, height: number, explored?: Uint8Array) {
+    this.width = width;
+    this.height = height;
+    this.explored = explored && explored.length === width * height ? explored : new Uint8Array(width * height);
+    this.visible = new Uint8Array(width * height);
+    this.version++;
+    this.invalidate();
+  },
+
+  /**
+   * Recompute vision on the next update (the map changed)
+   */
+  invalidate() {
+    this.originX = -1;
+    this.originY = -1;
+  },
+
+  isExplored(gridX: number, gridY: number): boolean {
+    return this.explored[gridY * this.width + gridX] === 1;
+  },
+
+  isVisible(gridX: number, gridY: number): boolean {
+    return this.visible[gridY * this.width + gridX] === 1;
+  },
+
+  /**
+   * Whether the player sees a world position (always true without a map)
+   */
+  isVisibleAt(x: number, z: number): boolean {
+    if (this.width === 0) return true;
+    const gridX = Math.floor(x + this.width / 2);
+    const gridY = Math.floor(z + this.height / 2);
+    if (gridX < 0 || gridX >= this.width || gridY < 0 || gridY >= this.height) return false;
+    return this.isVisible(gridX, gridY);
+  },
+
+  /**
+   * Whether the player has seen a world position (always true without a map)
+   */
+  isExploredAt(x: number, z: number): boolean {
+    if (this.width === 0) return true;
+    const gridX = Math.floor(x + this.width / 2);
+    const gridY = Math.floor(z + this.height / 2);
+    if (gridX < 0 || gridX >= this.width || gridY < 0 || gridY >= this.height) return false;
+    return this.isExplored(gridX, gridY);
+  },
+
+  /**
+   * Recompute vision from a world position if the player changed tile
+   */
+  update(x: number, z: number) {
+    if (this.width === 0) return;
+    const originX = Math.floor(x + this.width / 2);
+    const originY = Math.floor(z + this.height / 2);
+    if (originX === this.originX && originY === this.originY) return;
+
+    this.originX = originX;
+    this.originY = originY;
+    this.visible.fill(0);
+
+    for (let y = originY - VISION_RADIUS; y <= originY + VISION_RADIUS; y++) {
+      for (let x = originX - VISION_RADIUS; x <= originX + VISION_RADIUS; x++) {
+        if (x < 0 || x >= this.width || y < 0 || y >= this.height) continue;
+        if ((x - originX) ** 2 + (y - originY) ** 2 > VISION_RADIUS * VISION_RADIUS) continue;
+        if (!this.hasClearLine(originX, originY, x, y)) continue;
+
+        const index = y * this.width + x;
+        this.visible[index] = 1;
+        this.explored[index] = 1;
+      }
+    }
+    this.version++;
+  },
+
+  /**
+   * Bresenham line between two tiles - only the tiles in between can block
+   */
+  hasClearLine(x0: number, y0: number, x1: number, y1: number): boolean {
+    if (x0 === x1 && y0 === y1) return true;
+    const dx = Math.abs(x1 - x0);
+    const dy = -Math.abs(y1 - y0);
+    const sx = x0 < x1 ? 1 : -1;
+    const sy = y0 < y1 ? 1 : -1;
+    let error = dx + dy;
+    let x = x0;
+    let y = y0;
+
+    for (;;) {
+      const e2 = 2 * error;
+      if (e2 >= dy) {
+        error += dy;
+        x += sx;
+      }
+      if (e2 <= dx) {
+        error += dx;
+        y += sy;
+      }
+      if (x === x1 && y === y1) return true;
+      if (blocksSight(MapStore.tiles[y]?.[x])) return false;
+    }
+  }
+};
+
+/**
+ * Visibility System - updates the fog of war from the player's position
+ */
+export function visibilitySystem(playerEid: EntityId | null): void {
+  if (playerEid === null) return;
+  FogOfWar.update(Position.x[playerEid], Position.z[playerEid]);
+}
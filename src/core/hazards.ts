@@ -0,0 +1,108 @@
+/**
+ * Hazards - trap and terrain tiles that hurt or slow whoever stands on them
+ *
+ * Damage goes through the regular attack pipeline (the hazard "attacks" the
+ * entity on its behalf), so armor, floating text and deaths work as for any
+ * hit. The pathfinder charges extra for hazard tiles, so movers detour
+ * around them when they can. Placement is up to the generators (see
+ * placeHazards in dungeon-generator.ts). Some creature families shrug off
+ * some hazards (demons wade through lava, the undead don't mind poison).
+ */
+import { query } from 'bitecs';
+import type { World, EntityId } from 'bitecs';
+import { Position, CombatState, CombatStateEnum } from './components';
+import { HazardQuery } from './queries';
+import { TileType } from './dungeon-generator';
+import { MapStore } from './map-store';
+import { gameEvents } from './events';
+import { hazardDamageForDepth } from './depth';
+import { getEntityArchetype, type MonsterType } from './monster-archetypes';
+
+export type HazardTile = typeof TileType.SPIKES | typeof TileType.LAVA | typeof TileType.POISON | typeof TileType.MUD;
+
+export interface HazardRules {
+  name: string;
+  /** Damage per hit on floor 1 (deeper floors hit harder) */
+  damage: number;
+  /** Seconds between hits while standing in it (the first lands on entry) */
+  interval: number;
+  /** Monster families it doesn't hurt */
+  spares: readonly MonsterType[];
+  /** Movement speed multiplier */
+  speed: number;
+  /** Extra pathfinding cost of stepping onto it */
+  pathCost: number;
+  /** Render colour */
+  color: number;
+}
+
+export const HAZARDS: Readonly<Record<HazardTile, HazardRules>> = {
+  [TileType.SPIKES]: { name: 'Spike Trap', damage: 8, interval: 1, spares: [], speed: 1, pathCost: 4, color: 0x9ca3af },
+  [TileType.LAVA]: { name: 'Lava', damage: 12, interval: 0.5, spares: ['demon'], speed: 0.7, pathCost: 12, color: 0xf97316 },
+  [TileType.POISON]: { name: 'Poison Pool', damage: 4, interval: 1, spares: ['undead'], speed: 0.8, pathCost: 6, color: 0x65a30d },
+  [TileType.MUD]: { name: 'Mud', damage: 0, interval: 0, spares: [], speed: 0.5, pathCost: 2, color: 0x5b4630 },
+};
+
+export function isHazardTile(tile: TileType | null | undefined): tile is HazardTile {
+  return tile != null && tile in HAZARDS;
+}
+
+/**
+ * Hazard under a world position (null on safe ground)
+ */
+export function hazardAt(x: number, z: number): HazardRules | null {
+  const tile = MapStore.getTile(x, z);
+  return isHazardTile(tile) ? HAZARDS[tile] : null;
+}
+
+/**
+ * Movement speed multiplier at a world position (1 off hazards)
+ */
+export function hazardSpeedAt(x: number, z: number): number {
+  return hazardAt(x, z)?.speed ?? 1;
+}
+
+/**
+ * Extra pathfinding cost of a tile (0 off hazards)
+ */
+export function hazardPathCost(tile: TileType | null): number {
+  return isHazardTile(tile) ? HAZARDS[tile].pathCost : 0;
+}
+
+// Seconds until each entity standing in a damaging hazard is hit again
+const exposure = new Map<EntityId, number>();
+
+/**
+ * Forget hazard timers (new floor or reset world)
+ */
+export function clearHazardExposure(): void {
+  exposure.clear();
+}
+
+/**
+ * Hazard System - hits living entities standing in damaging hazards
+ * Emits attacks for the damage system, so run it before damage.
+ * @param depth floor number (scales damage)
+ */
+export function hazardSystem(world: World, deltaTime: number, depth: number): void {
+  for (const eid of query(world, HazardQuery)) {
+    if (CombatState.state[eid] === CombatStateEnum.DEAD) continue;
+
+    const hazard = hazardAt(Position.x[eid], Position.z[eid]);
+    const type = getEntityArchetype(eid)?.type;
+    if (!hazard || hazard.damage === 0 || (type && hazard.spares.includes(type))) {
+      exposure.delete(eid);
+      continue;
+    }
+
+    const timer = (exposure.get(eid) ?? 0) - deltaTime;
+    if (timer > 0) {
+      exposure.set(eid, timer);
+      continue;
+    }
+
+    exposure.set(eid, hazard.interval);
+    // Self-inflicted: no one gets XP for a trap kill
+    gameEvents.emit('attack', { attacker: eid, target: eid, damage: hazard.damage * hazardDamageForDepth(depth) });
+  }
+}
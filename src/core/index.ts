@@ -1,10 +1,22 @@
 // Core ECS exports
-export { GameWorld, getGameWorld, resetGameWorld } from './world';
+export {
+  GameWorld,
+  getGameWorld,
+  resetGameWorld,
+  NULL_HANDLE,
+  makeHandle,
+  handleIndex,
+  handleGeneration,
+} from './world';
+export type { EntityHandle } from './world';
 export type { World, EntityId } from 'bitecs';
 
 // Components
 export { 
   Position, 
+  PreviousPosition,
+  snapPreviousPosition,
+  getInterpolatedPosition,
   Velocity, 
   MoveTarget, 
   Speed,
@@ -12,14 +24,25 @@ export {
   ItemDropVisual,
   CombatStats,
   Target,
+  setTargetEntity,
+  clearTargetEntity,
+  hasTargetEntity,
+  resolveTargetEntity,
   CombatState,
   CombatStateEnum,
   Cooldowns,
-  ComponentFlags,
+  Player,
+  Monster,
+  MonsterArchetype,
+  Prop,
+  PropType,
+  ItemDrop,
+  DoorOpener,
   RarityEnum,
   ItemDataStore,
   getSkillCooldown,
   setSkillCooldown,
+  MAX_SKILL_SLOTS,
   // Equipment
   EquipmentSlot,
   EQUIPMENT_SLOT_COUNT,
@@ -39,7 +62,11 @@ export {
   addSpeedComponent,
   addPlayerComponent,
   addMonsterComponent,
+  addMonsterArchetypeComponent,
+  addPropComponent,
+  addPropTypeComponent,
   addItemDropComponent,
+  addDoorOpenerComponent,
   addCombatStatsComponent,
   addTargetComponent,
   addCooldownsComponent,
@@ -52,7 +79,11 @@ export {
   hasSpeed,
   hasPlayer,
   hasMonster,
+  hasMonsterArchetype,
+  hasProp,
+  hasPropType,
   hasItemDrop,
+  hasDoorOpener,
   hasCombatStats,
   hasTarget,
   hasCooldowns,
@@ -63,8 +94,74 @@ export {
 
 export type { ItemData, Rarity } from './components';
 
+// Queries
+export {
+  PositionQuery,
+  MovementQuery,
+  MoveToTargetQuery,
+  SeparationQuery,
+  CombatantQuery,
+  CooldownQuery,
+  CombatStateQuery,
+  TargetingQuery,
+  RegenQuery,
+  MonsterQuery,
+  HealthBarQuery,
+  RenderableQuery,
+  ItemDropQuery,
+  DoorOpenerQuery,
+  HazardQuery,
+  PropQuery,
+  onEnterQuery,
+  onExitQuery,
+  createEnterQueue,
+} from './queries';
+
+// Entity factory
+export { createPlayer, spawnMonster, spawnProp } from './entity-factory';
+
+// Monster archetypes (monsters.json)
+export {
+  getMonsterArchetypes,
+  getMonsterArchetype,
+  getMonsterArchetypeIndex,
+  getEntityArchetype,
+  getDefaultMonsterArchetype,
+  pickMonsterArchetype,
+  scaleMonsterStats,
+  monsterExperienceReward,
+  archetypeColor,
+  MONSTER_TYPES,
+} from './monster-archetypes';
+export type {
+  MonsterType,
+  MonsterArchetypeData,
+  MonsterDrop,
+  MonsterLevelScaling,
+  ScaledMonsterStats,
+} from './monster-archetypes';
+export { ABILITIES, isAbilityId } from './monster-abilities';
+export type { AbilityId, AbilityRules } from './monster-abilities';
+
+// Breakable props (props.json)
+export {
+  getPropTypes,
+  getPropType,
+  getPropTypeIndex,
+  getEntityPropType,
+  pickPropType,
+} from './prop-types';
+export type { PropTypeData } from './prop-types';
+
+// Spatial index
+export { SpatialHash, spatialIndex, SPATIAL_CELL_SIZE } from './spatial-hash';
+export type { Vec3Like, RayQueryOptions } from './spatial-hash';
+
 // Systems
-export { movementSystem, moveToTargetSystem, entitySeparationSystem } from './systems';
+export { positionSnapshotSystem, spatialIndexSystem, movementSystem, moveToTargetSystem, entitySeparationSystem } from './systems';
+export { FixedTimestep, TICK_RATE, FIXED_DELTA } from './fixed-timestep';
+export { SystemScheduler, SYSTEM_PHASES } from './scheduler';
+export type { SystemPhase, SystemFn, SystemDefinition, SystemTiming } from './scheduler';
 export { uiSystem, resetUISystem } from './ui-system';
 export { recalculateStats } from './stat-calculator';
 
@@ -78,9 +175,92 @@ export {
   calculateMonsterXP,
   getProgressionState,
   spendTalentPoint,
-  consumeLevelUpEvents,
 } from './progression';
 
+// Depth scaling (multi-floor dungeons)
+export {
+  MAX_DEPTH,
+  parseDepth,
+  floorSeed,
+  monsterLevelForDepth,
+  extraSpawnsForDepth,
+  lootRarityForDepth,
+  hazardPatchesForDepth,
+  hazardDamageForDepth,
+} from './depth';
+
+// Dungeon generators and biomes
+export {
+  BspDungeonGenerator,
+  TileType,
+  findTile,
+  isPassableTile,
+  floodDistances,
+  connectUnreachable,
+  placeDoors,
+  assignRoomRoles,
+  placeHazards,
+} from './dungeon-generator';
+export type { DungeonGenerator, BspGeneratorOptions, DungeonData, Room, RoomSpawn } from './dungeon-generator';
+export { ROOM_ROLE_RULES, roomRules, monstersForRoom, itemsForRoom, roomRoleAt } from './room-roles';
+export type { RoomRole, RoomRoleRules } from './room-roles';
+export {
+  DUNGEON_FILE_VERSION,
+  dungeonToAscii,
+  dungeonFromAscii,
+  dungeonToJson,
+  dungeonFromJson,
+  parseDungeonMap,
+} from './dungeon-io';
+export type { DungeonFile, AsciiMapOptions } from './dungeon-io';
+export { CaveDungeonGenerator } from './cave-generator';
+export { TemplateDungeonGenerator, getRoomTemplates } from './template-generator';
+export type { RoomTemplate } from './template-generator';
+export { BIOMES, biomeForDepth, createDungeonGenerator } from './biomes';
+export type { Biome, DungeonLayout } from './biomes';
+
+// Doors
+export { DOOR_REACH, getDoorTiles, distanceToDoor, isDoorOccupied, openDoor, closeDoor, doorSystem } from './doors';
+
+// Fog of war
+export { FogOfWar, VISION_RADIUS, visibilitySystem } from './fog-of-war';
+
+// Hazards
+export {
+  HAZARDS,
+  isHazardTile,
+  hazardAt,
+  hazardSpeedAt,
+  hazardPathCost,
+  clearHazardExposure,
+  hazardSystem,
+} from './hazards';
+export type { HazardTile, HazardRules } from './hazards';
+
+// Seeded RNG
+export { Rng, RngStreams, seedGameRng, getGameRng, randomSeed, parseSeed, rng } from './rng';
+export type { RngStreamName } from './rng';
+
+// Debug inspector
+export { listEntities, inspectEntity, setComponentField, getEntityLabel } from './inspector';
+export type { EntitySummary, EntityInspection, InspectedComponent, InspectedField } from './inspector';
+
+// Events
+export { EventBus, gameEvents } from './events';
+export type {
+  GameEventMap,
+  GameEventType,
+  AttackEvent,
+  DamageEvent,
+  DeathEvent,
+  LevelUpEvent,
+  PickupEvent,
+  EquipEvent,
+  SaveEvent,
+  FloorChangeEvent,
+  DoorEvent,
+} from './events';
+
 // Equipment
 export {
   equipItem,
@@ -91,3 +271,7 @@ export {
   hasItemEquipped,
   onEquipmentChanged,
 } from './equipment-system';
+
+// Boundary walls
+export { isBoundaryWall, mergeBoundaryWalls } from './wall-rects';
+export type { WallRect } from './wall-rects';
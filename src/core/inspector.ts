@@ -0,0 +1,190 @@
+/**
+ * ECS Inspector - read and edit live component data for the debug overlay
+ *
+ * Maps registered bitECS components back to readable names and exposes their
+ * SoA fields as plain values, so the UI doesn't need to know store layouts.
+ */
+import { getEntityComponents } from 'bitecs';
+import type { EntityId } from 'bitecs';
+import { getGameWorld, type EntityHandle } from './world';
+import {
+  Position,
+  Velocity,
+  MoveTarget,
+  Speed,
+  CombatStats,
+  Target,
+  CombatState,
+  CombatStateEnum,
+  Cooldowns,
+  Renderable,
+  Player,
+  Monster,
+  MonsterArchetype,
+  Prop,
+  PropType,
+  ItemDrop,
+  DoorOpener,
+  ItemDataStore,
+  resolveTargetEntity,
+  hasPlayer,
+  hasMonster,
+  hasProp,
+  hasItemDrop,
+  type ItemData,
+} from './components';
+import { Progression } from './progression';
+import { getPath } from './path-store';
+import { getEntityArchetype } from './monster-archetypes';
+import { getEntityPropType } from './prop-types';
+
+type NumericArray =
+  | Float32Array
+  | Float64Array
+  | Int32Array
+  | Uint32Array
+  | Uint16Array
+  | Uint8Array;
+
+// Per-entity arrays have one slot per entity; strided arrays (skill timers) are skipped
+const ENTITY_CAPACITY = Position.x.length;
+
+const INSPECTABLE: Array<{ name: string; component: object }> = [
+  { name: 'Player', component: Player },
+  { name: 'Monster', component: Monster },
+  { name: 'MonsterArchetype', component: MonsterArchetype },
+  { name: 'Prop', component: Prop },
+  { name: 'PropType', component: PropType },
+  { name: 'ItemDrop', component: ItemDrop },
+  { name: 'DoorOpener', component: DoorOpener },
+  { name: 'Position', component: Position },
+  { name: 'Velocity', component: Velocity },
+  { name: 'MoveTarget', component: MoveTarget },
+  { name: 'Speed', component: Speed },
+  { name: 'CombatStats', component: CombatStats },
+  { name: 'Target', component: Target },
+  { name: 'CombatState', component: CombatState },
+  { name: 'Cooldowns', component: Cooldowns },
+  { name: 'Progression', component: Progression },
+  { name: 'Renderable', component: Renderable },
+];
+
+const componentNames = new Map<object, string>(INSPECTABLE.map(c => [c.component, c.name]));
+const componentsByName = new Map<string, object>(INSPECTABLE.map(c => [c.name, c.component]));
+
+const CombatStateNames = Object.fromEntries(
+  Object.entries(CombatStateEnum).map(([name, value]) => [value, name])
+) as Record<number, string>;
+
+export interface InspectedField {
+  name: string;
+  value: number;
+}
+
+export interface InspectedComponent {
+  name: string;
+  /** Empty for tag components */
+  fields: InspectedField[];
+}
+
+export interface EntitySummary {
+  eid: EntityId;
+  label: string;
+}
+
+export interface EntityInspection {
+  eid: EntityId;
+  handle: EntityHandle;
+  label: string;
+  components: InspectedComponent[];
+  /** Resolved target entity (null if none or stale) */
+  target: EntityId | null;
+  combatState: string | null;
+  path: Array<{ x: number; y: number }> | null;
+  itemData: ItemData | null;
+}
+
+function numericFields(component: object): Array<[string, NumericArray]> {
+  return Object.entries(component).filter(
+    (entry): entry is [string, NumericArray] =>
+      ArrayBuffer.isView(entry[1]) && (entry[1] as NumericArray).length === ENTITY_CAPACITY
+  );
+}
+
+/**
+ * Short display label for an entity
+ */
+export function getEntityLabel(eid: EntityId): string {
+  if (hasPlayer(eid)) return `Player #${eid}`;
+  if (hasMonster(eid)) {
+    const name = getEntityArchetype(eid)?.name ?? 'Monster';
+    return `${name} #${eid} (Lv ${CombatStats.level[eid]})`;
+  }
+  if (hasProp(eid)) return `${getEntityPropType(eid)?.name ?? 'Prop'} #${eid}`;
+  if (hasItemDrop(eid)) return `Item #${eid} (${ItemDataStore.get(eid)?.name ?? '?'})`;
+  return `Entity #${eid}`;
+}
+
+/**
+ * All live entities with components (inventory and equipment items have none)
+ */
+export function listEntities(): EntitySummary[] {
+  const gameWorld = getGameWorld();
+  const summaries: EntitySummary[] = [];
+
+  for (const eid of gameWorld.getEntities()) {
+    if (getEntityComponents(gameWorld.world, eid).length === 0) continue;
+    summaries.push({ eid, label: getEntityLabel(eid) });
+  }
+
+  return summaries.sort((a, b) => a.eid - b.eid);
+}
+
+/**
+ * Snapshot of every inspectable component on an entity
+ * @returns null if the entity no longer exists
+ */
+export function inspectEntity(eid: EntityId): EntityInspection | null {
+  const gameWorld = getGameWorld();
+  if (!gameWorld.getEntities().has(eid)) return null;
+
+  const components: InspectedComponent[] = [];
+  for (const component of getEntityComponents(gameWorld.world, eid)) {
+    const name = componentNames.get(component);
+    if (!name) continue;
+
+    components.push({
+      name,
+      fields: numericFields(component).map(([field, array]) => ({ name: field, value: array[eid] })),
+    });
+  }
+
+  const hasTargetComponent = components.some(c => c.name === 'Target');
+  const hasCombatState = components.some(c => c.name === 'CombatState');
+
+  return {
+    eid,
+    handle: gameWorld.getHandle(eid),
+    label: getEntityLabel(eid),
+    components,
+    target: hasTargetComponent ? resolveTargetEntity(eid) : null,
+    combatState: hasCombatState ? CombatStateNames[CombatState.state[eid]] ?? null : null,
+    path: getPath(eid) ?? null,
+    itemData: ItemDataStore.get(eid) ?? null,
+  };
+}
+
+/**
+ * Write a component field (typed array rules apply, e.g. Uint8 wraps)
+ * @returns false if the component or field is unknown
+ */
+export function setComponentField(eid: EntityId, componentName: string, field: string, value: number): boolean {
+  const component = componentsByName.get(componentName);
+  if (!component || !Number.isFinite(value)) return false;
+
+  const array = numericFields(component).find(([name]) => name === field)?.[1];
+  if (!array) return false;
+
+  array[eid] = value;
+  return true;
+}
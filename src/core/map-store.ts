@@ -1,14 +1,23 @@
 import { TileType } from './dungeon-generator';
 
+// Sampling distance for line of sight checks
+const SIGHT_STEP = 0.25;
+
 export const MapStore = {
   width: 0,
   height: 0,
   tiles: [] as TileType[][],
+  // Tiles (y * width + x) taken by standing props
+  occupied: new Set<number>(),
+  // Bumped whenever tiles or occupancy change (lets the pathfinder cache per-map data)
+  version: 0,
   
   init(width: number, height: number, tiles: TileType[][]) {
     this.width = width;
     this.height = height;
     this.tiles = tiles;
+    this.occupied.clear();
+    this.version++;
   },
 
   isWall(x: number, z: number): boolean {
@@ -26,5 +35,95 @@ export const MapStore = {
     }
 
     return this.tiles[gridY][gridX] === TileType.WALL;
+  },
+
+  /**
+   * Closed door tile at a world position
+   */
+  isClosedDoor(x: number, z: number): boolean {
+    return this.getTile(x, z) === TileType.DOOR;
+  },
+
+  /**
+   * Whether an entity can't walk onto a world position
+   * @param canOpenDoors closed doors only block entities that can't open them
+   */
+  isBlocked(x: number, z: number, canOpenDoors: boolean = false): boolean {
+    return this.isWall(x, z) || (!canOpenDoors && this.isClosedDoor(x, z));
+  },
+
+  /**
+   * Grid version of isBlocked (out of bounds is blocked)
+   */
+  isBlockedTile(gridX: number, gridY: number, canOpenDoors: boolean = false): boolean {
+    if (gridX < 0 || gridX >= this.width || gridY < 0 || gridY >= this.height) return true;
+    const tile = this.tiles[gridY][gridX];
+    return tile === TileType.WALL || (!canOpenDoors && tile === TileType.DOOR);
+  },
+
+  /**
+   * Whether a prop stands on the tile under a world position
+   */
+  isOccupied(x: number, z: number): boolean {
+    const gridX = Math.floor(x + this.width / 2);
+    const gridY = Math.floor(z + this.height / 2);
+    if (gridX < 0 || gridX >= this.width || gridY < 0 || gridY >= this.height) return false;
+    return this.occupied.has(gridY * this.width + gridX);
+  },
+
+  /**
+   * Mark the tile under a world position as taken by a prop (or free it)
+   */
+  setOccupied(x: number, z: number, occupied: boolean): void {
+    const gridX = Math.floor(x + this.width / 2);
+    const gridY = Math.floor(z + this.height / 2);
+    if (gridX < 0 || gridX >= this.width || gridY < 0 || gridY >= this.height) return;
+    if (occupied) {
+      this.occupied.add(gridY * this.width + gridX);
+    } else {
+      this.occupied.delete(gridY * this.width + gridX);
+    }
+    this.version++;
+  },
+
+  /**
+   * Whether walls and closed doors leave a clear line between two world positions
+   */
+  hasLineOfSight(fromX: number, fromZ: number, toX: number, toZ: number): boolean {
+    if (this.width === 0) return true;
+
+    // Sample the segment at quarter-tile steps (the end tiles never block)
+    const distance = Math.hypot(toX - fromX, toZ - fromZ);
+    const steps = Math.ceil(distance / SIGHT_STEP);
+    for (let i = 1; i < steps; i++) {
+      const t = i / steps;
+      const x = fromX + (toX - fromX) * t;
+      const z = fromZ + (toZ - fromZ) * t;
+      if (this.isWall(x, z) || this.isClosedDoor(x, z)) return false;
+    }
+    return true;
+  },
+
+  /**
+   * Tile under a world position (null outside the map)
+   */
+  getTile(x: number, z: number): TileType | null {
+    const gridX = Math.floor(x + this.width / 2);
+    const gridY = Math.floor(z + this.height / 2);
+
+    if (gridX < 0 || gridX >= this.width || gridY < 0 || gridY >= this.height) {
+      return null;
+    }
+
+    return this.tiles[gridY][gridX];
+  },
+
+  /**
+   * Change a tile (grid coordinates)
+   */
+  setTile(gridX: number, gridY: number, type: TileType): void {
+    if (gridX < 0 || gridX >= this.width || gridY < 0 || gridY >= this.height) return;
+    this.tiles[gridY][gridX] = type;
+    this.version++;
   }
 };
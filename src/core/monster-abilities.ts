@@ -0,0 +1,28 @@
+/**
+ * Monster Abilities - special attacks listed under "abilities" in monsters.json
+ *
+ * An ability is cast instead of walking up for a basic attack: the combat
+ * system fires it when the target is out of melee reach but within the
+ * ability's range and in line of sight. Each ability of an archetype keeps
+ * its own cooldown in the skill slot matching its position in the list.
+ */
+
+export interface AbilityRules {
+  name: string;
+  /** Reach in world units */
+  range: number;
+  /** Damage as a multiple of a basic attack roll */
+  damageMultiplier: number;
+  /** Seconds between casts */
+  cooldown: number;
+}
+
+export const ABILITIES = {
+  fireball: { name: 'Fireball', range: 6, damageMultiplier: 1.5, cooldown: 4 },
+} as const satisfies Record<string, AbilityRules>;
+
+export type AbilityId = keyof typeof ABILITIES;
+
+export function isAbilityId(id: string): id is AbilityId {
+  return Object.hasOwn(ABILITIES, id);
+}
@@ -0,0 +1,269 @@
+/**
+ * Monster Archetypes - monster definitions loaded from monsters.json
+ *
+ * Each archetype gives level 1 stats, move speed, abilities, drops and XP.
+ * Spawned monsters scale from those values with the file's levelScaling
+ * rules, so a new monster only needs a JSON entry. Abilities must be ones the
+ * combat system knows (see monster-abilities.ts); the creature family decides
+ * which hazards spare it (see hazards.ts).
+ */
+import type { EntityId } from 'bitecs';
+import { MonsterArchetype, hasMonsterArchetype, MAX_SKILL_SLOTS } from './components';
+import { isAbilityId, type AbilityId } from './monster-abilities';
+import type { Rng } from './rng';
+import monsterData from '../data/monsters.json';
+import lootTables from '../data/loot_tables.json';
+
+export const MONSTER_TYPES = ['undead', 'demon', 'beast', 'humanoid'] as const;
+
+export type MonsterType = typeof MONSTER_TYPES[number];
+
+export interface MonsterDrop {
+  /** Base item id from loot_tables.json */
+  itemId: string;
+  /** Drop chance per kill (0..1) */
+  chance: number;
+}
+
+export interface MonsterArchetypeData {
+  id: string;
+  name: string;
+  /** Creature family (undead, demon, ...) */
+  type: MonsterType;
+  /** Body color as a hex string (#rrggbb) */
+  color: string;
+  /** Relative chance to be picked for a random spawn */
+  spawnWeight: number;
+  /** Level 1 stats */
+  stats: {
+    health: number;
+    armor: number;
+    damage: { min: number; max: number };
+    attackSpeed: number;
+    moveSpeed: number;
+    attackRange: number;
+  };
+  /** Special attacks, each cooling down in the skill slot of its index */
+  abilities: AbilityId[];
+  /** Opens closed doors (others path around them) */
+  canOpenDoors: boolean;
+  drops: MonsterDrop[];
+  /** XP granted at level 1 */
+  experienceReward: number;
+}
+
+/**
+ * Fraction added to a stat per level above 1
+ * (0.25 health = +25% of the level 1 value per level)
+ */
+export interface MonsterLevelScaling {
+  health: number;
+  damage: number;
+  armor: number;
+  experience: number;
+}
+
+/**
+ * Stats of an archetype at a given level
+ */
+export interface ScaledMonsterStats {
+  maxHp: number;
+  armor: number;
+  damageMin: number;
+  damageMax: number;
+  attackSpeed: number;
+  attackRange: number;
+  moveSpeed: number;
+}
+
+// Optional fields as they may appear in the JSON
+interface RawMonsterArchetype {
+  id: string;
+  name: string;
+  type: string;
+  color?: string;
+  spawnWeight?: number;
+  stats: {
+    health: number;
+    armor: number;
+    damage: { min: number; max: number };
+    attackSpeed: number;
+    moveSpeed: number;
+    attackRange?: number;
+  };
+  abilities?: string[];
+  canOpenDoors?: boolean;
+  drops?: MonsterDrop[];
+  experienceReward: number;
+}
+
+const DEFAULT_COLOR = '#ff4444';
+const DEFAULT_ATTACK_RANGE = 1.5;
+
+const baseItemIds = new Set(lootTables.baseItems.map(item => item.id));
+
+function isMonsterType(type: string): type is MonsterType {
+  return (MONSTER_TYPES as readonly string[]).includes(type);
+}
+
+/**
+ * Fill defaults and reject entries the game can't spawn
+ */
+function loadArchetype(raw: RawMonsterArchetype): MonsterArchetypeData {
+  const fail = (reason: string): never => {
+    throw new Error(`monsters.json: "${raw.id}" ${reason}`);
+  };
+
+  const { type, stats } = raw;
+  if (!isMonsterType(type)) return fail(`has unknown type "${type}"`);
+  if (!(stats.health > 0)) fail('needs health > 0');
+  if (!(stats.attackSpeed > 0)) fail('needs attackSpeed > 0');
+  if (stats.damage.min > stats.damage.max) fail('has damage.min > damage.max');
+
+  const color = raw.color ?? DEFAULT_COLOR;
+  if (!/^#[0-9a-f]{6}$/i.test(color)) fail(`has invalid color "${color}"`);
+
+  const abilities: AbilityId[] = [];
+  for (const ability of raw.abilities ?? []) {
+    if (!isAbilityId(ability)) return fail(`has unknown ability "${ability}"`);
+    abilities.push(ability);
+  }
+  if (abilities.length > MAX_SKILL_SLOTS) fail(`has more than ${MAX_SKILL_SLOTS} abilities`);
+
+  const drops = raw.drops ?? [];
+  for (const drop of drops) {
+    if (!baseItemIds.has(drop.itemId)) fail(`drops unknown base item "${drop.itemId}"`);
+  }
+
+  return {
+    id: raw.id,
+    name: raw.name,
+    type,
+    color,
+    spawnWeight: raw.spawnWeight ?? 1,
+    stats: {
+      health: stats.health,
+      armor: stats.armor,
+      damage: { min: stats.damage.min, max: stats.damage.max },
+      attackSpeed: stats.attackSpeed,
+      moveSpeed: stats.moveSpeed,
+      attackRange: stats.attackRange ?? DEFAULT_ATTACK_RANGE,
+    },
+    abilities,
+    canOpenDoors: raw.canOpenDoors ?? false,
+    drops,
+    experienceReward: raw.experienceReward,
+  };
+}
+
+function loadArchetypes(raws: RawMonsterArchetype[]): MonsterArchetypeData[] {
+  if (raws.length === 0) {
+    throw new Error('monsters.json: no monsters defined');
+  }
+
+  const seen = new Set<string>();
+  return raws.map(raw => {
+    if (seen.has(raw.id)) {
+      throw new Error(`monsters.json: duplicate monster id "${raw.id}"`);
+    }
+    seen.add(raw.id);
+    return loadArchetype(raw);
+  });
+}
+
+const archetypes = loadArchetypes(monsterData.monsters as RawMonsterArchetype[]);
+const archetypeIndex = new Map(archetypes.map((a, i) => [a.id, i]));
+const levelScaling: MonsterLevelScaling = monsterData.levelScaling;
+
+/**
+ * All archetypes in file order
+ */
+export function getMonsterArchetypes(): readonly MonsterArchetypeData[] {
+  return archetypes;
+}
+
+export function getMonsterArchetype(id: string): MonsterArchetypeData | undefined {
+  const index = archetypeIndex.get(id);
+  return index === undefined ? undefined : archetypes[index];
+}
+
+/**
+ * Index stored in the MonsterArchetype component (-1 if unknown)
+ */
+export function getMonsterArchetypeIndex(id: string): number {
+  return archetypeIndex.get(id) ?? -1;
+}
+
+/**
+ * Archetype a monster entity was spawned from
+ */
+export function getEntityArchetype(eid: EntityId): MonsterArchetypeData | null {
+  if (!hasMonsterArchetype(eid)) return null;
+  return archetypes[MonsterArchetype.index[eid]] ?? null;
+}
+
+/**
+ * Archetype used when none is specified (first in the file)
+ */
+export function getDefaultMonsterArchetype(): MonsterArchetypeData {
+  return archetypes[0];
+}
+
+/**
+ * Pick a random archetype by spawn weight
+ */
+export function pickMonsterArchetype(random: Rng): MonsterArchetypeData {
+  const totalWeight = archetypes.reduce((sum, a) => sum + a.spawnWeight, 0);
+  let roll = random.next() * totalWeight;
+
+  for (const archetype of archetypes) {
+    roll -= archetype.spawnWeight;
+    if (roll < 0) return archetype;
+  }
+
+  return archetypes[archetypes.length - 1];
+}
+
+function scale(base: number, perLevel: number, level: number): number {
+  return base * (1 + perLevel * Math.max(0, level - 1));
+}
+
+/**
+ * Archetype stats at a monster level
+ */
+export function scaleMonsterStats(archetype: MonsterArchetypeData, level: number): ScaledMonsterStats {
+  const { stats } = archetype;
+  return {
+    maxHp: Math.round(scale(stats.health, levelScaling.health, level)),
+    armor: Math.round(scale(stats.armor, levelScaling.armor, level)),
+    damageMin: Math.round(scale(stats.damage.min, levelScaling.damage, level)),
+    damageMax: Math.round(scale(stats.damage.max, levelScaling.damage, level)),
+    attackSpeed: stats.attackSpeed,
+    attackRange: stats.attackRange,
+    moveSpeed: stats.moveSpeed,
+  };
+}
+
+/**
+ * XP for killing an archetype at a monster level
+ */
+export function monsterExperienceReward(archetype: MonsterArchetypeData, level: number): number {
+  return Math.floor(scale(archetype.experienceReward, levelScaling.experience, level));
+}
+
+/**
+ * Archetype (or prop type) color in linear RGB (what the render system feeds to setRGB)
+ */
+export function archetypeColor(archetype: { color: string }): { r: number; g: number; b: number } {
+  const hex = parseInt(archetype.color.slice(1), 16);
+  return {
+    r: srgbToLinear((hex >> 16) & 0xff),
+    g: srgbToLinear((hex >> 8) & 0xff),
+    b: srgbToLinear(hex & 0xff),
+  };
+}
+
+function srgbToLinear(channel: number): number {
+  const c = channel / 255;
+  return c <= 0.04045 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+}
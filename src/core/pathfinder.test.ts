@@ -0,0 +1,94 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { Pathfinder } from './pathfinder';
+import { MapStore } from './map-store';
+import { TileType, type DungeonData } from './dungeon-generator';
+import { dungeonFromAscii } from './dungeon-io';
+import mazeMap from '../data/maps/fixtures/maze.txt?raw';
+import doorMap from '../data/maps/fixtures/door.txt?raw';
+import lavaMap from '../data/maps/fixtures/lava.txt?raw';
+
+interface GridPoint {
+  x: number;
+  y: number;
+}
+
+function load(text: string): DungeonData {
+  const dungeon = dungeonFromAscii(text);
+  MapStore.init(dungeon.width, dungeon.height, dungeon.tiles);
+  return dungeon;
+}
+
+/**
+ * Path between two tiles, in grid coordinates
+ */
+function findGridPath(dungeon: DungeonData, from: GridPoint, to: GridPoint, canOpenDoors = false, budget?: number): GridPoint[] {
+  const halfW = dungeon.width / 2;
+  const halfH = dungeon.height / 2;
+  const path = Pathfinder.findPath(from.x - halfW + 0.5, from.y - halfH + 0.5, to.x - halfW + 0.5, to.y - halfH + 0.5, canOpenDoors, budget);
+  return path.map(point => ({ x: Math.floor(point.x + halfW), y: Math.floor(point.y + halfH) }));
+}
+
+/**
+ * Every step moves to a neighbouring tile that isn't a wall, without cutting wall corners
+ */
+function expectWalkable(dungeon: DungeonData, path: GridPoint[]): void {
+  const isWall = (x: number, y: number) => dungeon.tiles[y][x] === TileType.WALL;
+  for (let i = 1; i < path.length; i++) {
+    const dx = path[i].x - path[i - 1].x;
+    const dy = path[i].y - path[i - 1].y;
+    expect(Math.max(Math.abs(dx), Math.abs(dy))).toBe(1);
+    expect(isWall(path[i].x, path[i].y)).toBe(false);
+    if (dx !== 0 && dy !== 0) {
+      expect(isWall(path[i - 1].x + dx, path[i - 1].y) || isWall(path[i - 1].x, path[i - 1].y + dy)).toBe(false);
+    }
+  }
+}
+
+describe('Pathfinder', () => {
+  beforeEach(() => {
+    MapStore.init(0, 0, []);
+  });
+
+  it('finds the shortest way through a maze', () => {
+    const dungeon = load(mazeMap);
+    const path = findGridPath(dungeon, dungeon.playerStart, dungeon.stairsDown!);
+
+    expect(path[0]).toEqual(dungeon.playerStart);
+    expect(path[path.length - 1]).toEqual(dungeon.stairsDown);
+    expectWalkable(dungeon, path);
+    // Down the left side, up the middle, then along the top and down the right
+    expect(path).toHaveLength(23);
+  });
+
+  it('only routes through closed doors for movers that open them', () => {
+    const dungeon = load(doorMap);
+
+    expect(findGridPath(dungeon, dungeon.playerStart, dungeon.stairsDown!)).toEqual([]);
+
+    const path = findGridPath(dungeon, dungeon.playerStart, dungeon.stairsDown!, true);
+    expect(path.some(point => dungeon.tiles[point.y][point.x] === TileType.DOOR)).toBe(true);
+  });
+
+  it('detours around lava when the way round is short', () => {
+    const dungeon = load(lavaMap);
+    const path = findGridPath(dungeon, dungeon.playerStart, dungeon.stairsDown!);
+
+    expect(path[path.length - 1]).toEqual(dungeon.stairsDown);
+    expectWalkable(dungeon, path);
+    expect(path.some(point => dungeon.tiles[point.y][point.x] === TileType.LAVA)).toBe(false);
+  });
+
+  it('crosses a hazard when there is no other way', () => {
+    const dungeon = load('#######\n#@~~~>#\n#######');
+    const path = findGridPath(dungeon, dungeon.playerStart, dungeon.stairsDown!);
+
+    expect(path).toHaveLength(5);
+  });
+
+  it('gives up on walled-off targets and over budget', () => {
+    const dungeon = load(mazeMap);
+
+    expect(findGridPath(dungeon, dungeon.playerStart, { x: 2, y: 1 })).toEqual([]);
+    expect(findGridPath(dungeon, dungeon.playerStart, dungeon.stairsDown!, false, 5)).toEqual([]);
+  });
+});
@@ -1,117 +1,269 @@
 import { MapStore } from './map-store';
+import { TileType } from './dungeon-generator';
+import { hazardPathCost } from './hazards';
 
 interface Point {
   x: number;
   y: number;
 }
 
-interface Node {
-  x: number;
-  y: number;
-  g: number; // Cost from start
-  h: number; // Heuristic to end
-  f: number; // Total cost
-  parent: Node | null;
+// Extra cost of stepping through a closed door (prefer open routes of similar length)
+const CLOSED_DOOR_COST = 2;
+const DIAGONAL_COST = Math.SQRT2;
+// Most tiles one search expands before giving up (an 80x80 floor has 6400)
+export const PATH_SEARCH_BUDGET = 10000;
+
+// Neighbour offsets: 4 orthogonal, then 4 diagonal
+const OFFSETS_X = [0, 0, -1, 1, -1, 1, -1, 1];
+const OFFSETS_Y = [-1, 1, 0, 0, -1, -1, 1, 1];
+
+/**
+ * Binary min-heap of tile indices keyed by f score
+ * A tile is pushed again when a cheaper route to it turns up; the stale
+ * entry is skipped when popped instead of being moved up the heap.
+ */
+class TileHeap {
+  private tiles = new Int32Array(256);
+  private keys = new Float64Array(256);
+  size = 0;
+
+  clear(): void {
+    this.size = 0;
+  }
+
+  push(tile: number, key: number): void {
+    if (this.size === this.tiles.length) this.grow();
+
+    // Sift up
+    let i = this.size++;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (this.keys[parent] <= key) break;
+      this.tiles[i] = this.tiles[parent];
+      this.keys[i] = this.keys[parent];
+      i = parent;
+    }
+    this.tiles[i] = tile;
+    this.keys[i] = key;
+  }
+
+  /**
+   * Remove the tile with the lowest key (the heap must not be empty)
+   */
+  pop(): number {
+    const top = this.tiles[0];
+    const last = --this.size;
+    const tile = this.tiles[last];
+    const key = this.keys[last];
+
+    // Sift the last entry down from the root
+    let i = 0;
+    for (;;) {
+      let child = 2 * i + 1;
+      if (child >= last) break;
+      if (child + 1 < last && this.keys[child + 1] < this.keys[child]) child++;
+      if (this.keys[child] >= key) break;
+      this.tiles[i] = this.tiles[child];
+      this.keys[i] = this.keys[child];
+      i = child;
+    }
+    this.tiles[i] = tile;
+    this.keys[i] = key;
+    return top;
+  }
+
+  private grow(): void {
+    const tiles = new Int32Array(this.tiles.length * 2);
+    const keys = new Float64Array(this.keys.length * 2);
+    tiles.set(this.tiles);
+    keys.set(this.keys);
+    this.tiles = tiles;
+    this.keys = keys;
+  }
+}
+
+// Cost of stepping onto each tile, or a marker for tiles that may block
+const WALL_STEP = -1;
+const DOOR_STEP = -2;
+const PROP_STEP = -3;
+
+// Node storage per tile (y * width + x), reused across searches. Entries only
+// count while their stamp matches the current search, so nothing is cleared.
+let stepCosts = new Float32Array(0);
+let stepCostsVersion = -1;
+let gScores = new Float64Array(0);
+let parents = new Int32Array(0);
+let openStamps = new Uint32Array(0);
+let closedStamps = new Uint32Array(0);
+let searchStamp = 0;
+const openSet = new TileHeap();
+
+/**
+ * Size the node storage for the map and start a new search stamp
+ */
+function beginSearch(tileCount: number): number {
+  if (gScores.length < tileCount) {
+    stepCosts = new Float32Array(tileCount);
+    stepCostsVersion = -1;
+    gScores = new Float64Array(tileCount);
+    parents = new Int32Array(tileCount);
+    openStamps = new Uint32Array(tileCount);
+    closedStamps = new Uint32Array(tileCount);
+    searchStamp = 0;
+  }
+  openSet.clear();
+  return ++searchStamp;
+}
+
+/**
+ * Rebuild the step costs if the map changed since the last search
+ */
+function refreshStepCosts(): void {
+  if (stepCostsVersion === MapStore.version) return;
+
+  const { width, height, tiles, occupied } = MapStore;
+  for (let y = 0; y < height; y++) {
+    const row = tiles[y];
+    for (let x = 0; x < width; x++) {
+      const tile = row[x];
+      stepCosts[y * width + x] = tile === TileType.WALL ? WALL_STEP
+        : tile === TileType.DOOR ? DOOR_STEP
+        // Detour around hazards when the way round isn't much longer
+        : hazardPathCost(tile);
+    }
+  }
+  for (const index of occupied) {
+    stepCosts[index] = PROP_STEP;
+  }
+  stepCostsVersion = MapStore.version;
+}
+
+/**
+ * Octile distance: diagonal steps, then straight ones
+ * Never overestimates - doors and hazards only add to the step costs.
+ */
+function octile(dx: number, dy: number): number {
+  return dx > dy
+    ? dx + (DIAGONAL_COST - 1) * dy
+    : dy + (DIAGONAL_COST - 1) * dx;
 }
 
 export class Pathfinder {
-  static findPath(startX: number, startY: number, endX: number, endY: number): Point[] {
-    // Convert to integers
-    const start = { x: Math.floor(startX), y: Math.floor(startY) };
-    const end = { x: Math.floor(endX), y: Math.floor(endY) };
-
-    if (MapStore.isWall(end.x, end.y)) {
-      // If target is a wall, maybe find nearest neighbor? 
-      // For now, simple fail or let it try closest valid
+  /**
+   * Cheapest 8-directional route between two world positions (x, z), as tile centres
+   * @param canOpenDoors route through closed doors (the mover opens them on the way)
+   * @param budget most tiles to expand before giving up
+   * @returns start to end, or empty if the end is blocked, unreachable or over budget
+   */
+  static findPath(
+    startX: number,
+    startY: number,
+    endX: number,
+    endY: number,
+    canOpenDoors: boolean = false,
+    budget: number = PATH_SEARCH_BUDGET
+  ): Point[] {
+    const { width, height } = MapStore;
+    // No map loaded: open ground, walk straight there
+    if (width === 0) {
+      return [
+        { x: Math.floor(startX) + 0.5, y: Math.floor(startY) + 0.5 },
+        { x: Math.floor(endX) + 0.5, y: Math.floor(endY) + 0.5 },
+      ];
+    }
+
+    // Grid coordinates (same conversion as MapStore)
+    const startGX = Math.floor(startX + width / 2);
+    const startGY = Math.floor(startY + height / 2);
+    const endGX = Math.floor(endX + width / 2);
+    const endGY = Math.floor(endY + height / 2);
+
+    if (MapStore.isBlockedTile(endGX, endGY, canOpenDoors)) {
+      return [];
+    }
+    if (startGX < 0 || startGX >= width || startGY < 0 || startGY >= height) {
       return [];
     }
 
-    const openList: Node[] = [];
-    const closedList: Set<string> = new Set();
-    
-    const startNode: Node = {
-      x: start.x,
-      y: start.y,
-      g: 0,
-      h: 0,
-      f: 0,
-      parent: null
+    const stamp = beginSearch(width * height);
+    refreshStepCosts();
+    const startIndex = startGY * width + startGX;
+    const endIndex = endGY * width + endGX;
+
+    // Props block their tile, except as the destination (walking up to break one)
+    const isBlocked = (index: number) => {
+      const marker = stepCosts[index];
+      return marker === WALL_STEP
+        || (marker === DOOR_STEP && !canOpenDoors)
+        || (marker === PROP_STEP && index !== endIndex);
     };
-    
-    openList.push(startNode);
-
-    while (openList.length > 0) {
-      // Get node with lowest f
-      openList.sort((a, b) => a.f - b.f);
-      const currentNode = openList.shift()!;
-      
-      const key = `${currentNode.x},${currentNode.y}`;
-      closedList.add(key);
-
-      // Check if reached destination
-      if (currentNode.x === end.x && currentNode.y === end.y) {
-        const path: Point[] = [];
-        let curr: Node | null = currentNode;
-        while (curr) {
-          path.push({ x: curr.x + 0.5, y: curr.y + 0.5 }); // Return center of tiles
-          curr = curr.parent;
-        }
-        return path.reverse(); // Start to End
-      }
 
-      // Generate neighbors (4 directions, maybe 8?)
-      // Let's stick to 4 for orthogonal movement in dungeon, or 8 for smoother?
-      // 8 directions
-      const neighbors = [
-        { x: 0, y: -1 }, { x: 0, y: 1 }, { x: -1, y: 0 }, { x: 1, y: 0 },
-        { x: -1, y: -1 }, { x: 1, y: -1 }, { x: -1, y: 1 }, { x: 1, y: 1 }
-      ];
+    gScores[startIndex] = 0;
+    parents[startIndex] = -1;
+    openStamps[startIndex] = stamp;
+    openSet.push(startIndex, octile(Math.abs(endGX - startGX), Math.abs(endGY - startGY)));
+
+    let expanded = 0;
+    while (openSet.size > 0) {
+      const current = openSet.pop();
+      // Stale entry - already expanded through a cheaper route
+      if (closedStamps[current] === stamp) continue;
+      closedStamps[current] = stamp;
 
-      for (const offset of neighbors) {
-        const neighborX = currentNode.x + offset.x;
-        const neighborY = currentNode.y + offset.y;
-        const neighborKey = `${neighborX},${neighborY}`;
+      if (current === endIndex) {
+        return Pathfinder.buildPath(endIndex);
+      }
+      if (++expanded > budget) {
+        return [];
+      }
 
-        if (closedList.has(neighborKey)) continue;
+      const currentX = current % width;
+      const currentY = (current - currentX) / width;
+      const currentG = gScores[current];
 
-        if (MapStore.isWall(neighborX, neighborY)) continue;
+      for (let i = 0; i < 8; i++) {
+        const dx = OFFSETS_X[i];
+        const dy = OFFSETS_Y[i];
+        const neighborX = currentX + dx;
+        const neighborY = currentY + dy;
+        if (neighborX < 0 || neighborX >= width || neighborY < 0 || neighborY >= height) continue;
 
-        // Diagonal check: Don't cut corners if adjacent are walls
-        if (Math.abs(offset.x) === 1 && Math.abs(offset.y) === 1) {
-          if (MapStore.isWall(currentNode.x + offset.x, currentNode.y) || 
-              MapStore.isWall(currentNode.x, currentNode.y + offset.y)) {
-            continue;
-          }
-          // Cost is higher for diagonal
+        const neighbor = current + dy * width + dx;
+        if (closedStamps[neighbor] === stamp) continue;
+        let stepCost = stepCosts[neighbor];
+        if (stepCost < 0) {
+          if (isBlocked(neighbor)) continue;
+          stepCost = stepCost === DOOR_STEP ? CLOSED_DOOR_COST : 0;
         }
 
-        const moveCost = (Math.abs(offset.x) === 1 && Math.abs(offset.y) === 1) ? 1.414 : 1;
-        const gScore = currentNode.g + moveCost;
-
-        const existingNode = openList.find(n => n.x === neighborX && n.y === neighborY);
-        
-        if (!existingNode || gScore < existingNode.g) {
-           const hScore = Math.abs(neighborX - end.x) + Math.abs(neighborY - end.y); // Manhattan or Euclidean?
-           const newNode: Node = {
-             x: neighborX,
-             y: neighborY,
-             g: gScore,
-             h: hScore,
-             f: gScore + hScore,
-             parent: currentNode
-           };
-           
-           if (!existingNode) {
-             openList.push(newNode);
-           } else {
-             existingNode.g = gScore;
-             existingNode.f = gScore + existingNode.h;
-             existingNode.parent = currentNode;
-           }
-        }
+        // Diagonal check: Don't cut corners if adjacent are walls
+        const diagonal = dx !== 0 && dy !== 0;
+        if (diagonal && (isBlocked(current + dx) || isBlocked(current + dy * width))) continue;
+
+        const g = currentG + (diagonal ? DIAGONAL_COST : 1) + stepCost;
+        if (openStamps[neighbor] === stamp && g >= gScores[neighbor]) continue;
+
+        gScores[neighbor] = g;
+        parents[neighbor] = current;
+        openStamps[neighbor] = stamp;
+        openSet.push(neighbor, g + octile(Math.abs(endGX - neighborX), Math.abs(endGY - neighborY)));
       }
     }
 
     return []; // No path found
   }
+
+  /**
+   * Follow the parent links back from the end tile, as world tile centres
+   */
+  private static buildPath(endIndex: number): Point[] {
+    const { width, height } = MapStore;
+    const path: Point[] = [];
+    for (let tile = endIndex; tile !== -1; tile = parents[tile]) {
+      const gridX = tile % width;
+      const gridY = (tile - gridX) / width;
+      path.push({ x: gridX - width / 2 + 0.5, y: gridY - height / 2 + 0.5 });
+    }
+    return path.reverse(); // Start to End
+  }
 }
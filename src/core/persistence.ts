@@ -10,7 +10,8 @@ import {
   syncXPToStore,
 } from './progression';
 import { CombatStats, Position, type ItemData } from './components';
-import { getGameWorld } from './world';
+import { getGameWorld, handleIndex } from './world';
+import { gameEvents } from './events';
 
 // Default to local Supabase if env vars are missing (for dev)
 const SUPABASE_URL = import.meta.env.VITE_SUPABASE_URL || 'http://127.0.0.1:54321';
@@ -26,6 +27,7 @@ import {
 import { recalculateStats, syncStatsToStore } from './stat-calculator';
 import { getEquippedItems, triggerStatRecalc } from './equipment-system';
 import { talents } from '../stores/talents';
+import type { WorldSnapshot } from '../simulation/world-snapshot';
 
 export const supabase = createClient(SUPABASE_URL, SUPABASE_KEY);
 
@@ -41,9 +43,11 @@ export interface SavedCharacterData {
   inventory: Array<{ slot: number; quantity: number; itemData: ItemData }>;
   equipment: Array<{ slot: number; itemData: ItemData }>;
   talents: Array<{ id: string; rank: number }>;
+  /** Dungeon, monsters and drops at save time (missing in older saves) */
+  world?: WorldSnapshot;
 }
 
-export async function saveCharacter(eid: number, userId: string = 'dummy-user') {
+export async function saveCharacter(eid: number, userId: string = 'dummy-user', world?: WorldSnapshot) {
   if (!eid) return;
 
   const progression = getProgressionState(eid);
@@ -88,12 +92,14 @@ export async function saveCharacter(eid: number, userId: string = 'dummy-user')
     },
     inventory: savedInventory,
     equipment: savedEquipment,
-    talents: savedTalents
+    talents: savedTalents,
+    world
   };
 
   // Validation before saving
   if (!validateCharacterStats(data)) {
     console.error('Validation failed: Stats do not match level/equipment');
+    gameEvents.emit('save', { entity: eid, userId, success: false });
     return;
   }
 
@@ -104,6 +110,8 @@ export async function saveCharacter(eid: number, userId: string = 'dummy-user')
         data 
     }, { onConflict: 'user_id' });
 
+  gameEvents.emit('save', { entity: eid, userId, success: !error });
+
   if (error) {
     console.error('Error saving character:', error);
     throw error;
@@ -112,7 +120,11 @@ export async function saveCharacter(eid: number, userId: string = 'dummy-user')
   }
 }
 
-export async function loadCharacter(eid: number, userId: string = 'dummy-user'): Promise<boolean> {
+/**
+ * Fetch a saved character without applying it
+ * Lets the caller restore the saved world before creating entities.
+ */
+export async function fetchCharacter(userId: string = 'dummy-user'): Promise<SavedCharacterData | null> {
   const { data, error } = await supabase
     .from('characters')
     .select('data')
@@ -121,10 +133,24 @@ export async function loadCharacter(eid: number, userId: string = 'dummy-user'):
 
   if (error || !data) {
     console.log('No character found or error loading:', error);
-    return false;
+    return null;
   }
 
-  const charData = data.data as SavedCharacterData;
+  return data.data as SavedCharacterData;
+}
+
+export async function loadCharacter(eid: number, userId: string = 'dummy-user'): Promise<boolean> {
+  const charData = await fetchCharacter(userId);
+  if (!charData) return false;
+
+  applyCharacter(eid, charData);
+  return true;
+}
+
+/**
+ * Restore a fetched character onto the player entity
+ */
+export function applyCharacter(eid: number, charData: SavedCharacterData): void {
   const world = getGameWorld();
   
   // Restore State
@@ -149,15 +175,18 @@ export async function loadCharacter(eid: number, userId: string = 'dummy-user'):
       });
   }
 
-  // 3. Position
-  Position.x[eid] = charData.position.x;
-  Position.y[eid] = charData.position.y;
-  Position.z[eid] = charData.position.z;
+  // 3. Position (only meaningful in the saved dungeon - older saves
+  // without a world snapshot keep the new dungeon's start position)
+  if (charData.world) {
+    Position.x[eid] = charData.position.x;
+    Position.y[eid] = charData.position.y;
+    Position.z[eid] = charData.position.z;
+  }
 
   // 4. Inventory
   clearInventory();
   for (const item of charData.inventory) {
-    const itemEid = world.createEntity();
+    const itemEid = handleIndex(world.createEntity());
     addItemToInventory(itemEid, item.itemData);
   }
 
@@ -165,7 +194,7 @@ export async function loadCharacter(eid: number, userId: string = 'dummy-user'):
   initEquipmentSlots(eid);
   if (charData.equipment) {
       for (const item of charData.equipment) {
-          const itemEid = world.createEntity();
+          const itemEid = handleIndex(world.createEntity());
           ItemDataStore.set(itemEid, item.itemData);
           setEquippedItem(eid, item.slot, itemEid);
       }
@@ -184,7 +213,6 @@ export async function loadCharacter(eid: number, userId: string = 'dummy-user'):
   syncStatsToStore(eid);
 
   console.log('Character loaded successfully');
-  return true;
 }
 
 /**
@@ -1,8 +1,11 @@
 /**
  * Progression System - XP, Leveling, and Talent Points
  */
+import { addComponent, hasComponent } from 'bitecs';
 import type { EntityId } from 'bitecs';
 import { CombatStats, BaseStats, hasPlayer } from './components';
+import { getGameWorld } from './world';
+import { gameEvents } from './events';
 import { playerExperience } from '../stores/player';
 import { triggerStatRecalc } from './equipment-system';
 
@@ -22,13 +25,6 @@ export const Progression = {
   statPoints: new Uint16Array(MAX_ENTITIES),
 };
 
-/**
- * Progression flags
- */
-export const ProgressionFlags = {
-  hasProgression: new Uint8Array(MAX_ENTITIES),
-};
-
 // ============================================================================
 // XP CONSTANTS
 // ============================================================================
@@ -57,7 +53,7 @@ export function xpForNextLevel(level: number): number {
  * Initialize progression for an entity
  */
 export function addProgressionComponent(eid: EntityId, startLevel: number = 1): void {
-  ProgressionFlags.hasProgression[eid] = 1;
+  addComponent(getGameWorld().world, eid, Progression);
   Progression.level[eid] = startLevel;
   Progression.xp[eid] = 0;
   Progression.talentPoints[eid] = 0;
@@ -68,25 +64,7 @@ export function addProgressionComponent(eid: EntityId, startLevel: number = 1):
  * Check if entity has progression
  */
 export function hasProgression(eid: EntityId): boolean {
-  return ProgressionFlags.hasProgression[eid] === 1;
-}
-
-// Event queue for level ups (consumed by VFX system)
-interface LevelUpEvent {
-  entity: EntityId;
-  newLevel: number;
-  position: { x: number; y: number; z: number };
-}
-
-const pendingLevelUps: LevelUpEvent[] = [];
-
-/**
- * Consume pending level up events
- */
-export function consumeLevelUpEvents(): LevelUpEvent[] {
-  const events = [...pendingLevelUps];
-  pendingLevelUps.length = 0;
-  return events;
+  return hasComponent(getGameWorld().world, eid, Progression);
 }
 
 /**
@@ -124,8 +102,8 @@ function checkLevelUp(eid: EntityId): boolean {
       triggerStatRecalc(eid);
     }
     
-    // Queue level up event for VFX
-    pendingLevelUps.push({
+    // Emit level up event (VFX, UI, ...)
+    gameEvents.emit('levelUp', {
       entity: eid,
       newLevel,
       position: { x: 0, y: 0, z: 0 }, // Will be updated by render system
@@ -0,0 +1,137 @@
+/**
+ * Prop Types - breakable props (barrels, crates, urns) loaded from props.json
+ *
+ * Props are entities with health but no attack: the player breaks them like
+ * monsters, and a broken prop rolls its loot (see lootSystem). Standing props
+ * block pathing on their tile.
+ */
+import type { EntityId } from 'bitecs';
+import { PropType, hasPropType } from './components';
+import type { MonsterDrop } from './monster-archetypes';
+import type { Rng } from './rng';
+import propData from '../data/props.json';
+import lootTables from '../data/loot_tables.json';
+
+export interface PropTypeData {
+  id: string;
+  name: string;
+  /** Color as a hex string (#rrggbb) */
+  color: string;
+  /** Relative chance to be picked for a random spawn */
+  spawnWeight: number;
+  health: number;
+  armor: number;
+  /** Generic level-based loot rolls when broken (each may drop nothing) */
+  lootRolls: number;
+  /** Specific base items, rolled on top of lootRolls */
+  drops: MonsterDrop[];
+}
+
+// Optional fields as they may appear in the JSON
+interface RawPropType {
+  id: string;
+  name: string;
+  color?: string;
+  spawnWeight?: number;
+  health: number;
+  armor?: number;
+  lootRolls?: number;
+  drops?: MonsterDrop[];
+}
+
+const DEFAULT_COLOR = '#8b5a2b';
+
+const baseItemIds = new Set(lootTables.baseItems.map(item => item.id));
+
+/**
+ * Fill defaults and reject entries the game can't spawn
+ */
+function loadPropType(raw: RawPropType): PropTypeData {
+  const fail = (reason: string): never => {
+    throw new Error(`props.json: "${raw.id}" ${reason}`);
+  };
+
+  if (!(raw.health > 0)) fail('needs health > 0');
+
+  const color = raw.color ?? DEFAULT_COLOR;
+  if (!/^#[0-9a-f]{6}$/i.test(color)) fail(`has invalid color "${color}"`);
+
+  const lootRolls = raw.lootRolls ?? 1;
+  if (!Number.isInteger(lootRolls) || lootRolls < 0) fail(`has invalid lootRolls ${lootRolls}`);
+
+  const drops = raw.drops ?? [];
+  for (const drop of drops) {
+    if (!baseItemIds.has(drop.itemId)) fail(`drops unknown base item "${drop.itemId}"`);
+  }
+
+  return {
+    id: raw.id,
+    name: raw.name,
+    color,
+    spawnWeight: raw.spawnWeight ?? 1,
+    health: raw.health,
+    armor: raw.armor ?? 0,
+    lootRolls,
+    drops,
+  };
+}
+
+function loadPropTypes(raws: RawPropType[]): PropTypeData[] {
+  if (raws.length === 0) {
+    throw new Error('props.json: no props defined');
+  }
+
+  const seen = new Set<string>();
+  return raws.map(raw => {
+    if (seen.has(raw.id)) {
+      throw new Error(`props.json: duplicate prop id "${raw.id}"`);
+    }
+    seen.add(raw.id);
+    return loadPropType(raw);
+  });
+}
+
+const propTypes = loadPropTypes(propData.props as RawPropType[]);
+const propTypeIndex = new Map(propTypes.map((p, i) => [p.id, i]));
+
+/**
+ * All prop types in file order
+ */
+export function getPropTypes(): readonly PropTypeData[] {
+  return propTypes;
+}
+
+export function getPropType(id: string): PropTypeData | undefined {
+  const index = propTypeIndex.get(id);
+  return index === undefined ? undefined : propTypes[index];
+}
+
+/**
+ * Index stored in the PropType component (-1 if unknown)
+ */
+export function getPropTypeIndex(id: string): number {
+  return propTypeIndex.get(id) ?? -1;
+}
+
+/**
+ * Type a prop entity was spawned from
+ */
+export function getEntityPropType(eid: EntityId): PropTypeData | null {
+  if (!hasPropType(eid)) return null;
+  return propTypes[PropType.index[eid]] ?? null;
+}
+
+/**
+ * Pick a random prop type by spawn weight
+ */
+export function pickPropType(random: Rng): PropTypeData {
+  const totalWeight = propTypes.reduce((sum, p) => sum + p.spawnWeight, 0);
+  let roll = random.next() * totalWeight;
+
+  for (const propType of propTypes) {
+    roll -= propType.spawnWeight;
+    if (roll < 0) return propType;
+  }
+
+  return propTypes[propTypes.length - 1];
+}
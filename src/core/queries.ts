@@ -0,0 +1,94 @@
+/**
+ * Shared bitECS queries
+ * bitECS caches a query per unique term list, so systems iterate these
+ * instead of scanning every entity in the world.
+ */
+import { observe, onAdd, onRemove, Or } from 'bitecs';
+import type { World, EntityId, QueryTerm } from 'bitecs';
+import {
+  Position,
+  Velocity,
+  MoveTarget,
+  Speed,
+  Renderable,
+  CombatStats,
+  Target,
+  CombatState,
+  Cooldowns,
+  Player,
+  Monster,
+  ItemDrop,
+  DoorOpener,
+  Prop,
+} from './components';
+
+// ============================================================================
+// QUERY TERMS
+// ============================================================================
+
+export const PositionQuery: QueryTerm[] = [Position];
+export const MovementQuery: QueryTerm[] = [Position, Velocity];
+export const MoveToTargetQuery: QueryTerm[] = [Position, MoveTarget, Speed];
+export const SeparationQuery: QueryTerm[] = [Position, Or(Monster, Player)];
+export const CombatantQuery: QueryTerm[] = [CombatStats, Target, CombatState];
+export const CooldownQuery: QueryTerm[] = [Cooldowns];
+export const CombatStateQuery: QueryTerm[] = [CombatState];
+export const TargetingQuery: QueryTerm[] = [Target];
+export const RegenQuery: QueryTerm[] = [CombatStats];
+export const MonsterQuery: QueryTerm[] = [Monster, Position, Target, CombatState];
+export const HealthBarQuery: QueryTerm[] = [Monster, CombatStats, Position];
+export const RenderableQuery: QueryTerm[] = [Position, Renderable];
+export const ItemDropQuery: QueryTerm[] = [ItemDrop, Position];
+export const DoorOpenerQuery: QueryTerm[] = [DoorOpener, Position, MoveTarget];
+export const HazardQuery: QueryTerm[] = [Position, CombatStats, CombatState];
+export const PropQuery: QueryTerm[] = [Prop, Position, CombatState];
+
+// ============================================================================
+// ENTER / EXIT HOOKS
+// ============================================================================
+
+/**
+ * Subscribe to entities entering a query
+ * @returns unsubscribe function
+ */
+export function onEnterQuery(
+  world: World,
+  terms: QueryTerm[],
+  callback: (eid: EntityId) => void
+): () => void {
+  return observe(world, onAdd(...terms), callback);
+}
+
+/**
+ * Subscribe to entities leaving a query (component removed or entity destroyed)
+ * @returns unsubscribe function
+ */
+export function onExitQuery(
+  world: World,
+  terms: QueryTerm[],
+  callback: (eid: EntityId) => void
+): () => void {
+  return observe(world, onRemove(...terms), callback);
+}
+
+/**
+ * Create a queue of entities that entered a query since the last drain.
+ * Entities are usually configured right after their components are added,
+ * so systems drain the queue on their next run instead of reacting inline.
+ */
+export function createEnterQueue(world: World, terms: QueryTerm[]): () => EntityId[] {
+  const entered: EntityId[] = [];
+  onEnterQuery(world, terms, (eid) => {
+    entered.push(eid);
+  });
+  onExitQuery(world, terms, (eid) => {
+    const index = entered.indexOf(eid);
+    if (index !== -1) entered.splice(index, 1);
+  });
+
+  return function drainEntered(): EntityId[] {
+    const events = [...entered];
+    entered.length = 0;
+    return events;
+  };
+}
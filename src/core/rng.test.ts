@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import { Rng, RngStreams, parseSeed } from './rng';
+
+function draw(random: Rng, count: number): number[] {
+  return Array.from({ length: count }, () => random.next());
+}
+
+describe('Rng', () => {
+  it('repeats its sequence for the same seed', () => {
+    expect(draw(new Rng(1234), 20)).toEqual(draw(new Rng(1234), 20));
+  });
+
+  it('gives different sequences for different seeds', () => {
+    expect(draw(new Rng(1), 20)).not.toEqual(draw(new Rng(2), 20));
+  });
+
+  it('resumes from a saved state', () => {
+    const random = new Rng(99);
+    draw(random, 5);
+    const state = random.getState();
+    const expected = draw(random, 10);
+
+    const resumed = new Rng(0);
+    resumed.setState(state);
+    expect(draw(resumed, 10)).toEqual(expected);
+  });
+
+  it('keeps int() within its inclusive bounds', () => {
+    const random = new Rng(7);
+    const rolls = new Set(Array.from({ length: 500 }, () => random.int(2, 5)));
+    expect([...rolls].sort()).toEqual([2, 3, 4, 5]);
+  });
+});
+
+describe('RngStreams', () => {
+  it('keeps streams independent', () => {
+    const a = new RngStreams(42);
+    const b = new RngStreams(42);
+    // Extra combat rolls must not shift the dungeon layout
+    draw(a.get('combat'), 100);
+    expect(draw(a.get('dungeon'), 10)).toEqual(draw(b.get('dungeon'), 10));
+  });
+
+  it('restores every stream from saved states', () => {
+    const streams = new RngStreams(5);
+    draw(streams.get('loot'), 3);
+    draw(streams.get('ai'), 7);
+    const states = streams.getStates();
+
+    const restored = new RngStreams(1);
+    restored.setStates(states);
+    expect(draw(restored.get('loot'), 5)).toEqual(draw(streams.get('loot'), 5));
+    expect(draw(restored.get('ai'), 5)).toEqual(draw(streams.get('ai'), 5));
+  });
+});
+
+describe('parseSeed', () => {
+  it('reads decimal seeds and rejects anything else', () => {
+    expect(parseSeed('12345')).toBe(12345);
+    expect(parseSeed(null)).toBeNull();
+    expect(parseSeed('')).toBeNull();
+    expect(parseSeed('abc')).toBeNull();
+  });
+});
@@ -0,0 +1,170 @@
+/**
+ * Seeded RNG - deterministic random numbers split into independent streams
+ *
+ * Each subsystem draws from its own named stream, so adding a roll to combat
+ * does not shift the dungeon layout or loot drops for the same seed.
+ */
+
+export type RngStreamName = 'dungeon' | 'loot' | 'combat' | 'ai';
+
+const STREAM_NAMES: readonly RngStreamName[] = ['dungeon', 'loot', 'combat', 'ai'];
+
+/**
+ * Hash a string into a 32-bit value (FNV-1a)
+ */
+function hashString(str: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < str.length; i++) {
+    h ^= str.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+/**
+ * Small fast PRNG (mulberry32) with the helpers gameplay code needs
+ */
+export class Rng {
+  private state: number;
+
+  constructor(seed: number) {
+    this.state = seed >>> 0;
+  }
+
+  /**
+   * Float in [0, 1) - drop-in replacement for Math.random()
+   */
+  next(): number {
+    let t = (this.state = (this.state + 0x6d2b79f5) >>> 0);
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  /**
+   * Float in [min, max)
+   */
+  range(min: number, max: number): number {
+    return min + this.next() * (max - min);
+  }
+
+  /**
+   * Integer in [min, max] (inclusive)
+   */
+  int(min: number, max: number): number {
+    return min + Math.floor(this.next() * (max - min + 1));
+  }
+
+  /**
+   * True with the given probability
+   */
+  chance(probability: number): boolean {
+    return this.next() < probability;
+  }
+
+  /**
+   * Unsigned 32-bit integer, e.g. to seed another generator
+   */
+  nextSeed(): number {
+    return Math.floor(this.next() * 4294967296) >>> 0;
+  }
+
+  /**
+   * Random element of a non-empty array
+   */
+  pick<T>(items: readonly T[]): T {
+    return items[Math.floor(this.next() * items.length)];
+  }
+
+  getState(): number {
+    return this.state;
+  }
+
+  setState(state: number): void {
+    this.state = state >>> 0;
+  }
+}
+
+/**
+ * Set of named streams derived from a single seed
+ */
+export class RngStreams {
+  readonly seed: number;
+  private streams = new Map<RngStreamName, Rng>();
+
+  constructor(seed: number) {
+    this.seed = seed >>> 0;
+    for (const name of STREAM_NAMES) {
+      this.streams.set(name, new Rng(this.seed ^ hashString(name)));
+    }
+  }
+
+  get(name: RngStreamName): Rng {
+    return this.streams.get(name)!;
+  }
+
+  /**
+   * Current state of every stream (for save games)
+   */
+  getStates(): Record<RngStreamName, number> {
+    const states = {} as Record<RngStreamName, number>;
+    for (const [name, stream] of this.streams) {
+      states[name] = stream.getState();
+    }
+    return states;
+  }
+
+  /**
+   * Resume every stream from saved states
+   */
+  setStates(states: Partial<Record<RngStreamName, number>>): void {
+    for (const [name, stream] of this.streams) {
+      const state = states[name];
+      if (state !== undefined) {
+        stream.setState(state);
+      }
+    }
+  }
+}
+
+/**
+ * Random seed for sessions that were not given one
+ */
+export function randomSeed(): number {
+  return Math.floor(Math.random() * 0xffffffff) >>> 0;
+}
+
+/**
+ * Parse a user-supplied seed (e.g. a ?seed= URL parameter)
+ * @returns null unless the value is an unsigned 32-bit integer
+ */
+export function parseSeed(value: string | null | undefined): number | null {
+  if (!value || !/^\d+$/.test(value.trim())) return null;
+  const seed = Number(value.trim());
+  return seed <= 0xffffffff ? seed : null;
+}
+
+// Singleton streams instance
+let gameRng: RngStreams | null = null;
+
+/**
+ * Reseed every stream (call before generating the dungeon)
+ */
+export function seedGameRng(seed: number): RngStreams {
+  gameRng = new RngStreams(seed);
+  return gameRng;
+}
+
+export function getGameRng(): RngStreams {
+  if (!gameRng) {
+    gameRng = new RngStreams(randomSeed());
+  }
+  return gameRng;
+}
+
+/**
+ * Shorthand for a stream of the game RNG
+ */
+export function rng(name: RngStreamName): Rng {
+  return getGameRng().get(name);
+}
@@ -0,0 +1,116 @@
+/**
+ * Room Roles - what each room of a floor is for
+ *
+ * Generators tag rooms with a role (see assignRoomRoles) and use the role's
+ * rules to place monsters, items and props. Spawns keep the role of their room, and
+ * kills inside a room use its loot odds.
+ */
+import type { Room } from './dungeon-generator';
+import { extraSpawnsForDepth } from './depth';
+import type { Rng } from './rng';
+
+export type RoomRole = 'safe' | 'normal' | 'boss' | 'treasure' | 'shrine';
+
+export interface RoomRoleRules {
+  /** Monsters spawned in the room (before depth scaling) */
+  monsters: { min: number; max: number };
+  /** Whether deeper floors add monsters to the room */
+  depthSpawns: boolean;
+  /** monsters.json archetype of every monster in the room (weighted random if omitted) */
+  archetype?: string;
+  /** Added to the level of monsters and items in the room */
+  levelBonus: number;
+  /** Multiplies the floor's loot rarity modifier for kills and items in the room */
+  lootRarity: number;
+  /** Items lying in the room when the floor starts */
+  items: { min: number; max: number };
+  /** Breakable props along the room's walls (see placeProps) */
+  props: { min: number; max: number };
+}
+
+export const ROOM_ROLE_RULES: Readonly<Record<RoomRole, RoomRoleRules>> = {
+  // Player start: nothing spawns
+  safe: {
+    monsters: { min: 0, max: 0 },
+    depthSpawns: false,
+    levelBonus: 0,
+    lootRarity: 1,
+    items: { min: 0, max: 0 },
+    props: { min: 1, max: 2 },
+  },
+  normal: {
+    monsters: { min: 1, max: 3 },
+    depthSpawns: true,
+    levelBonus: 0,
+    lootRarity: 1,
+    items: { min: 0, max: 0 },
+    props: { min: 0, max: 3 },
+  },
+  // A single strong demon guarding the way down
+  boss: {
+    monsters: { min: 1, max: 1 },
+    depthSpawns: false,
+    archetype: 'demon_fire',
+    levelBonus: 3,
+    lootRarity: 2.5,
+    items: { min: 0, max: 0 },
+    props: { min: 0, max: 0 },
+  },
+  // Dead ends with loot on the floor and maybe a guard
+  treasure: {
+    monsters: { min: 0, max: 1 },
+    depthSpawns: true,
+    levelBonus: 1,
+    lootRarity: 2,
+    items: { min: 2, max: 3 },
+    props: { min: 2, max: 4 },
+  },
+  // Quiet room with a single offering
+  shrine: {
+    monsters: { min: 0, max: 0 },
+    depthSpawns: false,
+    levelBonus: 0,
+    lootRarity: 1.5,
+    items: { min: 1, max: 1 },
+    props: { min: 1, max: 2 },
+  },
+};
+
+/**
+ * Rules of a room (untagged rooms are normal)
+ */
+export function roomRules(room: Room): RoomRoleRules {
+  return ROOM_ROLE_RULES[room.role ?? 'normal'];
+}
+
+/**
+ * Number of monsters to spawn in a room on a floor
+ */
+export function monstersForRoom(room: Room, depth: number, random: Rng): number {
+  const rules = roomRules(room);
+  return random.int(rules.monsters.min, rules.monsters.max) + (rules.depthSpawns ? extraSpawnsForDepth(depth) : 0);
+}
+
+/**
+ * Number of items lying in a room when the floor starts
+ */
+export function itemsForRoom(room: Room, random: Rng): number {
+  const rules = roomRules(room);
+  return random.int(rules.items.min, rules.items.max);
+}
+
+/**
+ * Number of breakable props to place in a room
+ */
+export function propsForRoom(room: Room, random: Rng): number {
+  const rules = roomRules(room);
+  return random.int(rules.props.min, rules.props.max);
+}
+
+/**
+ * Role of the room covering a grid tile (normal outside rooms - corridors, caves)
+ */
+export function roomRoleAt(rooms: readonly Room[], gridX: number, gridY: number): RoomRole {
+  const room = rooms.find(r => gridX >= r.x && gridX < r.x + r.w && gridY >= r.y && gridY < r.y + r.h);
+  return room?.role ?? 'normal';
+}
@@ -0,0 +1,254 @@
+/**
+ * System Scheduler - runs registered systems in phase and dependency order
+ *
+ * Systems register with a phase and optional before/after constraints instead
+ * of being called from a hand-ordered game loop. Fixed ticks run the input,
+ * AI, simulation and post-sim phases; each rendered frame runs the render phase.
+ */
+import type { World } from 'bitecs';
+
+export type SystemPhase = 'input' | 'ai' | 'simulation' | 'postSim' | 'render';
+
+export const SYSTEM_PHASES: readonly SystemPhase[] = ['input', 'ai', 'simulation', 'postSim', 'render'];
+
+// Phases stepped by the fixed timestep (render runs once per frame)
+const TICK_PHASES: readonly SystemPhase[] = ['input', 'ai', 'simulation', 'postSim'];
+const FRAME_PHASES: readonly SystemPhase[] = ['render'];
+
+/**
+ * System callback
+ * @param delta fixed delta for tick phases, frame delta for render
+ * @param alpha interpolation factor between ticks (1 during ticks)
+ */
+export type SystemFn = (world: World, delta: number, alpha: number) => void;
+
+export interface SystemDefinition {
+  name: string;
+  phase: SystemPhase;
+  run: SystemFn;
+  /** Systems this one must run before (across phases, phase order must agree) */
+  before?: string[];
+  /** Systems this one must run after (across phases, phase order must agree) */
+  after?: string[];
+  /** Whether the system starts enabled (default true) */
+  enabled?: boolean;
+}
+
+export interface SystemTiming {
+  name: string;
+  phase: SystemPhase;
+  enabled: boolean;
+  /** Duration of the last run in milliseconds */
+  lastMs: number;
+  /** Smoothed duration in milliseconds */
+  avgMs: number;
+}
+
+interface RegisteredSystem {
+  def: SystemDefinition;
+  enabled: boolean;
+  lastMs: number;
+  avgMs: number;
+  order: number;
+}
+
+// Weight of the newest sample in the smoothed timing
+const TIMING_SMOOTHING = 0.1;
+
+export class SystemScheduler {
+  private systems = new Map<string, RegisteredSystem>();
+  private sorted = new Map<SystemPhase, RegisteredSystem[]>();
+  private dirty = true;
+  private registrationCount = 0;
+
+  /**
+   * Register a system
+   */
+  register(def: SystemDefinition): this {
+    if (this.systems.has(def.name)) {
+      throw new Error(`System "${def.name}" is already registered`);
+    }
+
+    this.systems.set(def.name, {
+      def,
+      enabled: def.enabled ?? true,
+      lastMs: 0,
+      avgMs: 0,
+      order: this.registrationCount++,
+    });
+    this.dirty = true;
+    return this;
+  }
+
+  unregister(name: string): void {
+    if (this.systems.delete(name)) {
+      this.dirty = true;
+    }
+  }
+
+  has(name: string): boolean {
+    return this.systems.has(name);
+  }
+
+  setEnabled(name: string, enabled: boolean): void {
+    const system = this.systems.get(name);
+    if (!system) {
+      throw new Error(`Unknown system "${name}"`);
+    }
+    system.enabled = enabled;
+  }
+
+  isEnabled(name: string): boolean {
+    return this.systems.get(name)?.enabled ?? false;
+  }
+
+  /**
+   * System names in execution order
+   */
+  getOrder(phase?: SystemPhase): string[] {
+    this.sortIfDirty();
+    const phases = phase ? [phase] : SYSTEM_PHASES;
+    return phases.flatMap(p => (this.sorted.get(p) ?? []).map(s => s.def.name));
+  }
+
+  /**
+   * Per-system timings in execution order
+   */
+  getTimings(): SystemTiming[] {
+    this.sortIfDirty();
+    return SYSTEM_PHASES.flatMap(phase =>
+      (this.sorted.get(phase) ?? []).map(s => ({
+        name: s.def.name,
+        phase,
+        enabled: s.enabled,
+        lastMs: s.lastMs,
+        avgMs: s.avgMs,
+      }))
+    );
+  }
+
+  /**
+   * Run the fixed-tick phases (input → AI → simulation → post-sim)
+   */
+  runTick(world: World, fixedDelta: number): void {
+    this.runPhases(TICK_PHASES, world, fixedDelta, 1);
+  }
+
+  /**
+   * Run the render phase
+   */
+  runFrame(world: World, deltaTime: number, alpha: number): void {
+    this.runPhases(FRAME_PHASES, world, deltaTime, alpha);
+  }
+
+  runPhases(phases: readonly SystemPhase[], world: World, delta: number, alpha: number): void {
+    this.sortIfDirty();
+
+    for (const phase of phases) {
+      const systems = this.sorted.get(phase);
+      if (!systems) continue;
+
+      for (const system of systems) {
+        if (!system.enabled) continue;
+
+        const start = performance.now();
+        system.def.run(world, delta, alpha);
+        const elapsed = performance.now() - start;
+
+        system.lastMs = elapsed;
+        system.avgMs += (elapsed - system.avgMs) * TIMING_SMOOTHING;
+      }
+    }
+  }
+
+  private sortIfDirty(): void {
+    if (!this.dirty) return;
+
+    this.sorted.clear();
+    for (const phase of SYSTEM_PHASES) {
+      const systems = [...this.systems.values()]
+        .filter(s => s.def.phase === phase)
+        .sort((a, b) => a.order - b.order);
+      this.sorted.set(phase, this.sortPhase(phase, systems));
+    }
+    this.dirty = false;
+  }
+
+  /**
+   * Topologically sort one phase, keeping registration order where unconstrained
+   */
+  private sortPhase(phase: SystemPhase, systems: RegisteredSystem[]): RegisteredSystem[] {
+    const byName = new Map(systems.map(s => [s.def.name, s]));
+    const edges = new Map<string, Set<string>>(systems.map(s => [s.def.name, new Set()]));
+    const inDegree = new Map<string, number>(systems.map(s => [s.def.name, 0]));
+
+    const addEdge = (from: string, to: string) => {
+      if (!edges.get(from)!.has(to)) {
+        edges.get(from)!.add(to);
+        inDegree.set(to, inDegree.get(to)! + 1);
+      }
+    };
+
+    for (const system of systems) {
+      const name = system.def.name;
+      for (const other of system.def.before ?? []) {
+        if (byName.has(other)) {
+          addEdge(name, other);
+        } else {
+          this.checkCrossPhase(name, phase, other, 'before');
+        }
+      }
+      for (const other of system.def.after ?? []) {
+        if (byName.has(other)) {
+          addEdge(other, name);
+        } else {
+          this.checkCrossPhase(name, phase, other, 'after');
+        }
+      }
+    }
+
+    // Kahn's algorithm - always pick the earliest registered ready system
+    const result: RegisteredSystem[] = [];
+    const ready = systems.filter(s => inDegree.get(s.def.name) === 0);
+
+    while (ready.length > 0) {
+      ready.sort((a, b) => a.order - b.order);
+      const next = ready.shift()!;
+      result.push(next);
+
+      for (const to of edges.get(next.def.name)!) {
+        const degree = inDegree.get(to)! - 1;
+        inDegree.set(to, degree);
+        if (degree === 0) {
+          ready.push(byName.get(to)!);
+        }
+      }
+    }
+
+    if (result.length !== systems.length) {
+      const cyclic = systems.filter(s => !result.includes(s)).map(s => s.def.name);
+      throw new Error(`System ordering cycle in phase "${phase}": ${cyclic.join(', ')}`);
+    }
+
+    return result;
+  }
+
+  /**
+   * A constraint on a system in another phase must agree with phase order
+   * (constraints on systems that are not registered are ignored)
+   */
+  private checkCrossPhase(name: string, phase: SystemPhase, other: string, relation: 'before' | 'after'): void {
+    const otherSystem = this.systems.get(other);
+    if (!otherSystem) return;
+
+    const phaseIndex = SYSTEM_PHASES.indexOf(phase);
+    const otherIndex = SYSTEM_PHASES.indexOf(otherSystem.def.phase);
+    const satisfied = relation === 'before' ? phaseIndex < otherIndex : phaseIndex > otherIndex;
+
+    if (!satisfied) {
+      throw new Error(
+        `System "${name}" (${phase}) cannot run ${relation} "${other}" (${otherSystem.def.phase})`
+      );
+    }
+  }
+}
@@ -0,0 +1,227 @@
+/**
+ * Spatial Hash - uniform grid over the XZ plane for neighbour queries
+ *
+ * Rebuilt once per tick from Position by spatialIndexSystem. Queries filter
+ * candidates against the live Position store, so they stay exact even when a
+ * system moves entities after the rebuild (cells are scanned with a margin
+ * that covers a tick's worth of movement).
+ */
+import type { EntityId } from 'bitecs';
+import { Position } from './components';
+
+export const SPATIAL_CELL_SIZE = 2;
+
+// Extra distance scanned around each query to absorb movement since the rebuild
+const QUERY_MARGIN = 0.5;
+
+// Cell coordinates are offset so keys stay positive
+const CELL_OFFSET = 32768;
+
+export interface Vec3Like {
+  x: number;
+  y: number;
+  z: number;
+}
+
+/**
+ * Ray query options
+ */
+export interface RayQueryOptions {
+  /** Height above Position.y the ray is tested against (e.g. body center) */
+  centerHeight?: number;
+  /** Ignore hits further along the ray than this */
+  maxDistance?: number;
+}
+
+export class SpatialHash {
+  readonly cellSize: number;
+  private cells = new Map<number, EntityId[]>();
+  private usedKeys: number[] = [];
+  private minY = 0;
+  private maxY = 0;
+  private count = 0;
+  private hitDistances = new Map<EntityId, number>();
+
+  constructor(cellSize: number = SPATIAL_CELL_SIZE) {
+    this.cellSize = cellSize;
+  }
+
+  get size(): number {
+    return this.count;
+  }
+
+  private cellCoord(v: number): number {
+    return Math.floor(v / this.cellSize);
+  }
+
+  private key(cx: number, cz: number): number {
+    return (cx + CELL_OFFSET) * 65536 + (cz + CELL_OFFSET);
+  }
+
+  /**
+   * Remove every entity (cell arrays are kept for reuse)
+   */
+  clear(): void {
+    for (const key of this.usedKeys) {
+      this.cells.get(key)!.length = 0;
+    }
+    this.usedKeys.length = 0;
+    this.count = 0;
+    this.minY = 0;
+    this.maxY = 0;
+  }
+
+  /**
+   * Add an entity at its current Position
+   */
+  insert(eid: EntityId): void {
+    const x = Position.x[eid];
+    const y = Position.y[eid];
+    const z = Position.z[eid];
+    const key = this.key(this.cellCoord(x), this.cellCoord(z));
+
+    let cell = this.cells.get(key);
+    if (!cell) {
+      cell = [];
+      this.cells.set(key, cell);
+    }
+    if (cell.length === 0) {
+      this.usedKeys.push(key);
+    }
+    cell.push(eid);
+
+    if (this.count === 0) {
+      this.minY = y;
+      this.maxY = y;
+    } else {
+      this.minY = Math.min(this.minY, y);
+      this.maxY = Math.max(this.maxY, y);
+    }
+    this.count++;
+  }
+
+  /**
+   * Entities within radius of (x, z) on the XZ plane
+   * @param out array to fill (cleared first) - pass one in to avoid allocation
+   */
+  queryRadius(x: number, z: number, radius: number, out: EntityId[] = []): EntityId[] {
+    out.length = 0;
+    if (this.count === 0) return out;
+
+    const reach = radius + QUERY_MARGIN;
+    const minCx = this.cellCoord(x - reach);
+    const maxCx = this.cellCoord(x + reach);
+    const minCz = this.cellCoord(z - reach);
+    const maxCz = this.cellCoord(z + reach);
+    const radiusSq = radius * radius;
+
+    for (let cx = minCx; cx <= maxCx; cx++) {
+      for (let cz = minCz; cz <= maxCz; cz++) {
+        const cell = this.cells.get(this.key(cx, cz));
+        if (!cell) continue;
+
+        for (const eid of cell) {
+          const dx = Position.x[eid] - x;
+          const dz = Position.z[eid] - z;
+          if (dx * dx + dz * dz <= radiusSq) {
+            out.push(eid);
+          }
+        }
+      }
+    }
+
+    return out;
+  }
+
+  /**
+   * Entities whose center passes within radius of a ray, nearest first
+   * @param out array to fill (cleared first)
+   */
+  queryRay(
+    origin: Vec3Like,
+    direction: Vec3Like,
+    radius: number,
+    options: RayQueryOptions = {},
+    out: EntityId[] = []
+  ): EntityId[] {
+    out.length = 0;
+    if (this.count === 0) return out;
+
+    const centerHeight = options.centerHeight ?? 0;
+    const len = Math.sqrt(direction.x ** 2 + direction.y ** 2 + direction.z ** 2);
+    if (len === 0) return out;
+    const dx = direction.x / len;
+    const dy = direction.y / len;
+    const dz = direction.z / len;
+
+    // Clip the ray to the height band entities occupy
+    let tMin = 0;
+    let tMax = options.maxDistance ?? Infinity;
+    const bandLow = this.minY + centerHeight - radius;
+    const bandHigh = this.maxY + centerHeight + radius;
+    if (Math.abs(dy) > 1e-6) {
+      const t0 = (bandLow - origin.y) / dy;
+      const t1 = (bandHigh - origin.y) / dy;
+      tMin = Math.max(tMin, Math.min(t0, t1));
+      tMax = Math.min(tMax, Math.max(t0, t1));
+    } else if (origin.y < bandLow || origin.y > bandHigh) {
+      return out;
+    }
+    if (tMin > tMax || !Number.isFinite(tMax)) return out;
+
+    // Walk the ray's XZ footprint in half-cell steps, collecting nearby cells
+    const horizontal = Math.sqrt(dx * dx + dz * dz);
+    const stepT = horizontal > 1e-6 ? (this.cellSize * 0.5) / horizontal : tMax - tMin;
+    const reach = radius + QUERY_MARGIN;
+    const visited = new Set<number>();
+    const hits = this.hitDistances;
+    hits.clear();
+
+    for (let t = tMin; ; t = Math.min(t + stepT, tMax)) {
+      const px = origin.x + dx * t;
+      const pz = origin.z + dz * t;
+      const minCx = this.cellCoord(px - reach);
+      const maxCx = this.cellCoord(px + reach);
+      const minCz = this.cellCoord(pz - reach);
+      const maxCz = this.cellCoord(pz + reach);
+
+      for (let cx = minCx; cx <= maxCx; cx++) {
+        for (let cz = minCz; cz <= maxCz; cz++) {
+          const key = this.key(cx, cz);
+          if (visited.has(key)) continue;
+          visited.add(key);
+
+          const cell = this.cells.get(key);
+          if (!cell) continue;
+
+          for (const eid of cell) {
+            // Project the entity center onto the ray
+            const ex = Position.x[eid] - origin.x;
+            const ey = Position.y[eid] + centerHeight - origin.y;
+            const ez = Position.z[eid] - origin.z;
+            const projection = ex * dx + ey * dy + ez * dz;
+            if (projection <= 0 || projection > (options.maxDistance ?? Infinity)) continue;
+
+            const cx2 = ex - dx * projection;
+            const cy2 = ey - dy * projection;
+            const cz2 = ez - dz * projection;
+            if (cx2 * cx2 + cy2 * cy2 + cz2 * cz2 < radius * radius) {
+              hits.set(eid, projection);
+            }
+          }
+        }
+      }
+
+      if (t >= tMax) break;
+    }
+
+    for (const eid of hits.keys()) {
+      out.push(eid);
+    }
+    out.sort((a, b) => hits.get(a)! - hits.get(b)!);
+    return out;
+  }
+}
+
+// Shared index of every entity with a Position
+export const spatialIndex = new SpatialHash();
@@ -1,31 +1,56 @@
-import type { EntityId } from 'bitecs';
+import { query } from 'bitecs';
+import type { World, EntityId } from 'bitecs';
 import { 
   Position, 
   Velocity, 
   MoveTarget, 
   Speed, 
-  hasPosition,
   hasVelocity,
-  hasMoveTarget,
-  hasSpeed,
   hasMonster,
   hasPlayer,
+  hasDoorOpener,
+  snapPreviousPosition,
 } from './components';
+import { PositionQuery, MovementQuery, MoveToTargetQuery, SeparationQuery } from './queries';
+import { spatialIndex } from './spatial-hash';
 
 import { Pathfinder } from './pathfinder';
 import { setPath, getPath, clearPath } from './path-store';
+import { hazardSpeedAt } from './hazards';
 
 // Collision radius for entities
 const ENTITY_RADIUS = 0.8;
 const SEPARATION_STRENGTH = 5.0;
 
+// Reused neighbour buffer for spatial queries
+const neighbourScratch: EntityId[] = [];
+
+/**
+ * Position Snapshot System - records positions before a simulation tick
+ * Must run first in every fixed tick so rendering can interpolate
+ */
+export function positionSnapshotSystem(world: World): void {
+  for (const eid of query(world, PositionQuery)) {
+    snapPreviousPosition(eid);
+  }
+}
+
+/**
+ * Spatial Index System - rebuilds the shared spatial hash from Position
+ * Runs once per tick before any system that queries neighbours
+ */
+export function spatialIndexSystem(world: World): void {
+  spatialIndex.clear();
+  for (const eid of query(world, PositionQuery)) {
+    spatialIndex.insert(eid);
+  }
+}
+
 /**
  * Movement System - applies velocity to position
  */
-export function movementSystem(entities: Set<EntityId>, deltaTime: number): void {
-  for (const eid of entities) {
-    if (!hasPosition(eid) || !hasVelocity(eid)) continue;
-    
+export function movementSystem(world: World, deltaTime: number): void {
+  for (const eid of query(world, MovementQuery)) {
     Position.x[eid] += Velocity.x[eid] * deltaTime;
     Position.y[eid] += Velocity.y[eid] * deltaTime;
     Position.z[eid] += Velocity.z[eid] * deltaTime;
@@ -35,11 +60,8 @@ export function movementSystem(entities: Set<EntityId>, deltaTime: number): void
 /**
  * Move-to-target System - moves entities toward their target position using A* Pathfinding
  */
-export function moveToTargetSystem(entities: Set<EntityId>, deltaTime: number): void {
-  for (const eid of entities) {
-    // Skip if missing required components
-    if (!hasPosition(eid) || !hasMoveTarget(eid) || !hasSpeed(eid)) continue;
-    
+export function moveToTargetSystem(world: World, deltaTime: number): void {
+  for (const eid of query(world, MoveToTargetQuery)) {
     // Skip if no active target
     if (MoveTarget.active[eid] === 0) continue;
     
@@ -58,8 +80,8 @@ export function moveToTargetSystem(entities: Set<EntityId>, deltaTime: number):
        const targetZ = MoveTarget.z[eid];
        
        // Optimization: If close enough, don't pathfind?
-       // Just basic A*
-       const newPath = Pathfinder.findPath(startX, startZ, targetX, targetZ);
+       // Just basic A* (through closed doors only if this entity opens them)
+       const newPath = Pathfinder.findPath(startX, startZ, targetX, targetZ, hasDoorOpener(eid));
        if (newPath.length > 0) {
          setPath(eid, newPath);
          path = newPath;
@@ -78,7 +100,8 @@ export function moveToTargetSystem(entities: Set<EntityId>, deltaTime: number):
     // Follow path
     if (path && path.length > 0) {
         const nextPoint = path[0];
-        const speed = Speed.value[eid];
+        // Mud and other hazards slow the mover down
+        const speed = Speed.value[eid] * hazardSpeedAt(Position.x[eid], Position.z[eid]);
         
         const dx = nextPoint.x - Position.x[eid];
         // const dy = 0; // Flat movement
@@ -136,24 +159,22 @@ export function moveToTargetSystem(entities: Set<EntityId>, deltaTime: number):
  * Entity Separation System - prevents entities from overlapping
  * Pushes monsters apart when they get too close to each other
  */
-export function entitySeparationSystem(entities: Set<EntityId>, deltaTime: number): void {
-  const entityList: EntityId[] = [];
+export function entitySeparationSystem(world: World, deltaTime: number): void {
+  // All entities that need separation (monsters and player)
+  const entityList = query(world, SeparationQuery);
+  const minDistance = ENTITY_RADIUS * 2;
   
-  // Collect all entities that need separation (monsters and player)
-  for (const eid of entities) {
-    if ((hasMonster(eid) || hasPlayer(eid)) && hasPosition(eid)) {
-      entityList.push(eid);
-    }
-  }
-  
-  // Check each pair for overlap
+  // Check each nearby pair for overlap
   for (let i = 0; i < entityList.length; i++) {
     const eid1 = entityList[i];
-    const x1 = Position.x[eid1];
-    const z1 = Position.z[eid1];
+    const neighbours = spatialIndex.queryRadius(Position.x[eid1], Position.z[eid1], minDistance, neighbourScratch);
     
-    for (let j = i + 1; j < entityList.length; j++) {
-      const eid2 = entityList[j];
+    for (const eid2 of neighbours) {
+      // Each pair once, and only other separating entities
+      if (eid2 <= eid1 || !(hasMonster(eid2) || hasPlayer(eid2))) continue;
+      
+      const x1 = Position.x[eid1];
+      const z1 = Position.z[eid1];
       const x2 = Position.x[eid2];
       const z2 = Position.z[eid2];
       
@@ -162,8 +183,6 @@ export function entitySeparationSystem(entities: Set<EntityId>, deltaTime: numbe
       const dz = z2 - z1;
       const distance = Math.sqrt(dx * dx + dz * dz);
       
-      const minDistance = ENTITY_RADIUS * 2;
-      
       // If overlapping, push apart
       if (distance < minDistance && distance > 0.01) {
         const overlap = minDistance - distance;
@@ -0,0 +1,287 @@
+/**
+ * Template Generator - hand-authored rooms stitched on a grid
+ *
+ * The map is split into equal slots. Each slot gets a prefab room from
+ * room_templates.json (randomly mirrored), and the slots are chained in a
+ * serpentine by straight corridors along their centre lines. Templates keep
+ * their middle row and column open, so those corridors always lead inside.
+ *
+ * Template rows use '.' for floor, '#' for wall and 'M' for a floor tile
+ * where monsters may spawn.
+ */
+import { Rng, rng } from './rng';
+import { monstersForRoom, itemsForRoom } from './room-roles';
+import {
+  TileType,
+  placeDoors,
+  connectUnreachable,
+  assignRoomRoles,
+  placeHazards,
+  placeProps,
+  type DungeonData,
+  type DungeonGenerator,
+  type Room,
+  type RoomSpawn,
+} from './dungeon-generator';
+import templateData from '../data/room_templates.json';
+
+export interface RoomTemplate {
+  id: string;
+  name: string;
+  /** Relative chance to be picked for a slot */
+  weight: number;
+  /** One string per row ('.' floor, '#' wall, 'M' monster spawn) */
+  rows: string[];
+}
+
+interface RawRoomTemplate {
+  id: string;
+  name: string;
+  weight?: number;
+  rows: string[];
+}
+
+interface GridPoint {
+  x: number;
+  y: number;
+}
+
+// Each template sits centred in a square slot this many tiles wide
+const SLOT_SIZE = 16;
+// Templates leave at least this much wall between neighbouring slots
+const MAX_TEMPLATE_SIZE = SLOT_SIZE - 2;
+
+/**
+ * Reject templates the stitcher can't connect
+ */
+function loadTemplate(raw: RawRoomTemplate): RoomTemplate {
+  const fail = (reason: string): never => {
+    throw new Error(`room_templates.json: "${raw.id}" ${reason}`);
+  };
+
+  const { rows } = raw;
+  if (rows.length === 0) fail('has no rows');
+  const width = rows[0].length;
+  if (rows.some(row => row.length !== width)) fail('has rows of different lengths');
+  if (rows.some(row => /[^.#M]/.test(row))) fail(`may only use '.', '#' and 'M'`);
+  if (width % 2 === 0 || rows.length % 2 === 0) fail('needs an odd width and height');
+  if (width > MAX_TEMPLATE_SIZE || rows.length > MAX_TEMPLATE_SIZE) fail(`is larger than ${MAX_TEMPLATE_SIZE}x${MAX_TEMPLATE_SIZE}`);
+
+  const middleRow = rows[(rows.length - 1) / 2];
+  const middleColumn = rows.map(row => row[(width - 1) / 2]).join('');
+  if (middleRow.includes('#') || middleColumn.includes('#')) fail('needs an open middle row and column');
+
+  return { id: raw.id, name: raw.name, weight: raw.weight ?? 1, rows };
+}
+
+function loadTemplates(raws: RawRoomTemplate[]): RoomTemplate[] {
+  if (raws.length === 0) {
+    throw new Error('room_templates.json: no templates defined');
+  }
+
+  const seen = new Set<string>();
+  return raws.map(raw => {
+    if (seen.has(raw.id)) {
+      throw new Error(`room_templates.json: duplicate template id "${raw.id}"`);
+    }
+    seen.add(raw.id);
+    return loadTemplate(raw);
+  });
+}
+
+const templates = loadTemplates(templateData.templates as RawRoomTemplate[]);
+const totalWeight = templates.reduce((sum, t) => sum + t.weight, 0);
+
+/**
+ * All room templates in file order
+ */
+export function getRoomTemplates(): readonly RoomTemplate[] {
+  return templates;
+}
+
+export class TemplateDungeonGenerator implements DungeonGenerator {
+  private width: number;
+  private height: number;
+  private map: TileType[][] = [];
+  private rooms: Room[] = [];
+  // Monster markers of each placed room (same order as rooms)
+  private markers: GridPoint[][] = [];
+  private random: Rng;
+  readonly seed: number;
+  readonly depth: number;
+
+  /**
+   * @param seed layout seed (drawn from the game's dungeon stream if omitted)
+   * @param depth floor number - deeper floors spawn more monsters
+   * @throws if the map is too small for a single slot
+   */
+  constructor(
+    width: number = 50,
+    height: number = 50,
+    seed: number = rng('dungeon').nextSeed(),
+    depth: number = 1
+  ) {
+    if (width - 2 < SLOT_SIZE || height - 2 < SLOT_SIZE) {
+      throw new Error(`Template dungeons need at least ${SLOT_SIZE + 2}x${SLOT_SIZE + 2} tiles`);
+    }
+    this.width = width;
+    this.height = height;
+    this.seed = seed >>> 0;
+    this.depth = depth;
+    this.random = new Rng(this.seed);
+  }
+
+  generate(): DungeonData {
+    // Restart from the seed so every call yields the same layout
+    this.random = new Rng(this.seed);
+    this.rooms = [];
+    this.markers = [];
+    this.map = Array(this.height).fill(null).map(() => Array(this.width).fill(TileType.WALL));
+
+    const centers = this.slotCenters();
+    for (const center of centers) {
+      this.stampTemplate(this.pickTemplate(), center);
+    }
+
+    // Chain neighbouring slots (always in the same row or column)
+    for (let i = 0; i < centers.length - 1; i++) {
+      this.carveCorridor(centers[i], centers[i + 1]);
+    }
+
+    // Start in the first slot; every floor tile must be reachable from it
+    const playerStart = { ...centers[0] };
+    connectUnreachable(this.map, playerStart);
+    placeDoors(this.map, this.rooms);
+
+    // Stairs in the last slot
+    const last = centers[centers.length - 1];
+    const stairsDown = centers.length > 1 ? { ...last } : { x: last.x + 1, y: last.y };
+    this.map[stairsDown.y][stairsDown.x] = TileType.STAIRS_DOWN;
+    assignRoomRoles(this.map, this.rooms, playerStart);
+    const enemySpawns = this.getEnemySpawns();
+    const itemSpawns = this.getItemSpawns();
+    const propSpawns = placeProps(this.map, this.rooms, playerStart, this.random, [...enemySpawns, ...itemSpawns]);
+    placeHazards(this.map, this.rooms, playerStart, this.depth, this.random, [...enemySpawns, ...itemSpawns, ...propSpawns]);
+
+    return {
+      seed: this.seed,
+      depth: this.depth,
+      width: this.width,
+      height: this.height,
+      tiles: this.map,
+      rooms: this.rooms,
+      playerStart,
+      stairsDown,
+      enemySpawns,
+      itemSpawns,
+      propSpawns
+    };
+  }
+
+  /**
+   * Slot centres in serpentine order (left to right, then right to left, ...)
+   */
+  private slotCenters(): GridPoint[] {
+    const cols = Math.floor((this.width - 2) / SLOT_SIZE);
+    const rows = Math.floor((this.height - 2) / SLOT_SIZE);
+    const originX = 1 + Math.floor((this.width - 2 - cols * SLOT_SIZE) / 2);
+    const originY = 1 + Math.floor((this.height - 2 - rows * SLOT_SIZE) / 2);
+
+    const centers: GridPoint[] = [];
+    for (let row = 0; row < rows; row++) {
+      for (let i = 0; i < cols; i++) {
+        const col = row % 2 === 0 ? i : cols - 1 - i;
+        centers.push({
+          x: originX + col * SLOT_SIZE + SLOT_SIZE / 2,
+          y: originY + row * SLOT_SIZE + SLOT_SIZE / 2,
+        });
+      }
+    }
+    return centers;
+  }
+
+  private pickTemplate(): RoomTemplate {
+    let roll = this.random.next() * totalWeight;
+    for (const template of templates) {
+      roll -= template.weight;
+      if (roll < 0) return template;
+    }
+    return templates[templates.length - 1];
+  }
+
+  /**
+   * Copy a template (maybe mirrored) so its middle tile lands on the slot centre
+   */
+  private stampTemplate(template: RoomTemplate, center: GridPoint) {
+    const h = template.rows.length;
+    const w = template.rows[0].length;
+    const flipX = this.random.chance(0.5);
+    const flipY = this.random.chance(0.5);
+    const room: Room = { x: center.x - (w - 1) / 2, y: center.y - (h - 1) / 2, w, h };
+    const markers: GridPoint[] = [];
+
+    for (let ty = 0; ty < h; ty++) {
+      for (let tx = 0; tx < w; tx++) {
+        const cell = template.rows[flipY ? h - 1 - ty : ty][flipX ? w - 1 - tx : tx];
+        if (cell === '#') continue;
+
+        const x = room.x + tx;
+        const y = room.y + ty;
+        this.map[y][x] = TileType.FLOOR;
+        if (cell === 'M') markers.push({ x, y });
+      }
+    }
+
+    this.rooms.push(room);
+    this.markers.push(markers);
+  }
+
+  /**
+   * Straight 1-wide corridor between two slot centres
+   */
+  private carveCorridor(from: GridPoint, to: GridPoint) {
+    const dx = Math.sign(to.x - from.x);
+    const dy = Math.sign(to.y - from.y);
+    for (let x = from.x, y = from.y; x !== to.x || y !== to.y; x += dx, y += dy) {
+      this.map[y][x] = TileType.FLOOR;
+    }
+  }
+
+  private getEnemySpawns(): RoomSpawn[] {
+    const spawns: RoomSpawn[] = [];
+    // Count per room role (none in the safe start room), more on deeper floors
+    for (let i = 0; i < this.rooms.length; i++) {
+      const room = this.rooms[i];
+      const markers = this.markers[i];
+      const count = monstersForRoom(room, this.depth, this.random);
+      for (let j = 0; j < count; j++) {
+        const tile = markers.length > 0 ? this.random.pick(markers) : this.randomFloorTile(room);
+        spawns.push({ ...tile, role: room.role ?? 'normal' });
+      }
+    }
+    return spawns;
+  }
+
+  private getItemSpawns(): RoomSpawn[] {
+    const spawns: RoomSpawn[] = [];
+    for (const room of this.rooms) {
+      const count = itemsForRoom(room, this.random);
+      for (let j = 0; j < count; j++) {
+        spawns.push({ ...this.randomFloorTile(room), role: room.role ?? 'normal' });
+      }
+    }
+    return spawns;
+  }
+
+  /**
+   * Random floor tile of a room (its centre if a few tries hit walls)
+   */
+  private randomFloorTile(room: Room): GridPoint {
+    for (let attempt = 0; attempt < 10; attempt++) {
+      const x = room.x + this.random.int(0, room.w - 1);
+      const y = room.y + this.random.int(0, room.h - 1);
+      if (this.map[y][x] === TileType.FLOOR) return { x, y };
+    }
+    return { x: room.x + (room.w - 1) / 2, y: room.y + (room.h - 1) / 2 };
+  }
+}
@@ -0,0 +1,71 @@
+/**
+ * Wall Rects - boundary walls merged into as few rectangles as possible
+ *
+ * Only walls touching walkable ground (in any of 8 directions) can ever be
+ * reached or seen; the solid rock behind them is skipped. Boundary walls are
+ * merged greedily in scan order: each rectangle grows right as far as it can,
+ * then down while the whole row below it is boundary wall too.
+ */
+import { TileType, isPassableTile, tileAt } from './dungeon-generator';
+
+/** Rectangle of wall tiles (grid coordinates) */
+export interface WallRect {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+}
+
+/**
+ * Wall tile next to (or diagonal to) a walkable tile
+ */
+export function isBoundaryWall(tiles: TileType[][], x: number, y: number): boolean {
+  if (tileAt(tiles, x, y) !== TileType.WALL) return false;
+  for (let dy = -1; dy <= 1; dy++) {
+    for (let dx = -1; dx <= 1; dx++) {
+      if ((dx !== 0 || dy !== 0) && isPassableTile(tileAt(tiles, x + dx, y + dy))) return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Cover every boundary wall tile with non-overlapping rectangles
+ */
+export function mergeBoundaryWalls(tiles: TileType[][]): WallRect[] {
+  const height = tiles.length;
+  const width = tiles[0]?.length ?? 0;
+
+  // 1 = boundary wall not yet covered by a rectangle
+  const open = new Uint8Array(width * height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (isBoundaryWall(tiles, x, y)) open[y * width + x] = 1;
+    }
+  }
+
+  const rects: WallRect[] = [];
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (!open[y * width + x]) continue;
+
+      let w = 1;
+      while (x + w < width && open[y * width + x + w]) w++;
+
+      let h = 1;
+      const rowOpen = (row: number) => {
+        for (let i = x; i < x + w; i++) {
+          if (!open[row * width + i]) return false;
+        }
+        return true;
+      };
+      while (y + h < height && rowOpen(y + h)) h++;
+
+      for (let row = y; row < y + h; row++) {
+        open.fill(0, row * width + x, row * width + x + w);
+      }
+      rects.push({ x, y, w, h });
+    }
+  }
+  return rects;
+}
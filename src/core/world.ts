@@ -5,30 +5,101 @@ import type { World, EntityId } from 'bitecs';
 export { createWorld, addEntity, removeEntity };
 export type { World, EntityId };
 
+const MAX_ENTITIES = 10000;
+
+// ============================================================================
+// ENTITY HANDLES
+// ============================================================================
+
+/**
+ * Generational entity handle: entity index in the low 16 bits, generation
+ * above it. bitECS recycles ids on removal, so references that outlive an
+ * entity (targets, item links) store a handle and resolve it through the
+ * world, which reports "gone" once the index has been reused.
+ */
+export type EntityHandle = number & { readonly __entityHandle: true };
+
+const HANDLE_INDEX_BITS = 16;
+const HANDLE_INDEX_MASK = (1 << HANDLE_INDEX_BITS) - 1;
+const HANDLE_GENERATION_MASK = 0x7fff; // Keeps handles positive in an Int32Array
+
+/**
+ * Sentinel for "no entity"
+ */
+export const NULL_HANDLE = -1 as EntityHandle;
+
+/**
+ * Pack an entity index and generation into a handle
+ */
+export function makeHandle(index: EntityId, generation: number): EntityHandle {
+  return (((generation & HANDLE_GENERATION_MASK) << HANDLE_INDEX_BITS) | index) as EntityHandle;
+}
+
+/**
+ * Entity index (the id used to address component stores)
+ */
+export function handleIndex(handle: EntityHandle): EntityId {
+  return handle & HANDLE_INDEX_MASK;
+}
+
+/**
+ * Generation the handle was issued for
+ */
+export function handleGeneration(handle: EntityHandle): number {
+  return (handle >>> HANDLE_INDEX_BITS) & HANDLE_GENERATION_MASK;
+}
+
 /**
  * Game World wrapper with entity tracking for cleanup
  */
 export class GameWorld {
   readonly world: World;
   private entities: Set<EntityId> = new Set();
+  private generations = new Uint16Array(MAX_ENTITIES);
 
   constructor() {
     this.world = createWorld();
   }
 
-  createEntity(): EntityId {
+  createEntity(): EntityHandle {
     const eid = addEntity(this.world);
     this.entities.add(eid);
-    return eid;
+    return makeHandle(eid, this.generations[eid]);
   }
 
   destroyEntity(eid: EntityId): void {
     if (this.entities.has(eid)) {
       removeEntity(this.world, eid);
       this.entities.delete(eid);
+      // Invalidate every handle issued for this index
+      this.generations[eid] = (this.generations[eid] + 1) & HANDLE_GENERATION_MASK;
     }
   }
 
+  /**
+   * Handle for a live entity
+   */
+  getHandle(eid: EntityId): EntityHandle {
+    return makeHandle(eid, this.generations[eid]);
+  }
+
+  /**
+   * Resolve a handle to its entity index, or null if the entity is gone
+   */
+  resolve(handle: EntityHandle): EntityId | null {
+    if (handle < 0) return null;
+
+    const eid = handleIndex(handle);
+    if (!this.entities.has(eid)) return null;
+    if (this.generations[eid] !== handleGeneration(handle)) return null;
+
+    return eid;
+  }
+
+  isAlive(handle: EntityHandle): boolean {
+    return this.resolve(handle) !== null;
+  }
+
   getEntities(): ReadonlySet<EntityId> {
     return this.entities;
   }
@@ -36,6 +107,7 @@ export class GameWorld {
   clear(): void {
     for (const eid of this.entities) {
       removeEntity(this.world, eid);
+      this.generations[eid] = (this.generations[eid] + 1) & HANDLE_GENERATION_MASK;
     }
     this.entities.clear();
   }
@@ -1,4 +1,4 @@
 // Loot system exports
-export { generateLoot, createItemDropEntity, lootSystem, getRarityColor } from './loot-system';
+export { generateLoot, generateRandomItem, generateItem, createItemDropEntity, lootSystem, getRarityColor } from './loot-system';
 export { initItemRenderer, ItemDropPool, createItemDropRenderSystem } from './item-renderer';
-export { pickupItem, canPickup, pickupNearbyItems, createPickupSystem } from './pickup-system';
+export { pickupItem, canPickup, pickupNearbyItems } from './pickup-system';
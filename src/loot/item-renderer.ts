@@ -1,12 +1,13 @@
 import * as THREE from 'three';
-import type { EntityId } from 'bitecs';
+import { query } from 'bitecs';
+import type { World, EntityId } from 'bitecs';
 import { 
   Position, 
   ItemDataStore,
   hasPosition, 
-  hasItemDrop,
   RarityEnum,
 } from '../core/components';
+import { ItemDropQuery, createEnterQueue, onExitQuery } from '../core/queries';
 import { getRarityColor } from './loot-system';
 
 // Rarity to geometry/material mapping
@@ -197,20 +198,22 @@ export class ItemDropPool {
 /**
  * Create item drop render system
  */
-export function createItemDropRenderSystem(pool: ItemDropPool) {
-  const initialized = new Set<EntityId>();
+export function createItemDropRenderSystem(pool: ItemDropPool, world: World) {
+  const drainEntered = createEnterQueue(world, ItemDropQuery);
   
-  return function itemDropRenderSystem(entities: Set<EntityId>): void {
-    for (const eid of entities) {
-      if (!hasItemDrop(eid)) continue;
-      
-      // Initialize new drops
-      if (!initialized.has(eid)) {
-        pool.createItemDrop(eid);
-        initialized.add(eid);
-      }
-      
-      // Update position (for bobbing animation)
+  // Remove visuals when the drop is picked up or destroyed
+  onExitQuery(world, ItemDropQuery, (eid) => {
+    pool.removeItemDrop(eid);
+  });
+  
+  return function itemDropRenderSystem(world: World): void {
+    // Initialize new drops
+    for (const eid of drainEntered()) {
+      pool.createItemDrop(eid);
+    }
+    
+    // Update position (for bobbing animation)
+    for (const eid of query(world, ItemDropQuery)) {
       pool.updatePosition(eid);
     }
   };
@@ -9,8 +9,11 @@ import {
   type ItemData,
   type Rarity,
 } from '../core/components';
-import { getGameWorld } from '../core/world';
-import { consumeDeathEvents } from '../combat/damage-system';
+import { getGameWorld, handleIndex } from '../core/world';
+import type { DeathEvent } from '../core/events';
+import { rng, type Rng } from '../core/rng';
+import { getMonsterArchetype } from '../core/monster-archetypes';
+import { getPropType } from '../core/prop-types';
 import lootTables from '../data/loot_tables.json';
 
 // Types from JSON
@@ -37,6 +40,10 @@ interface BaseItem {
   levelRange: { min: number; max: number };
 }
 
+// Extra drops from one kill are placed on a ring around the first
+const DROP_SPREAD_RADIUS = 0.8;
+const DROP_SPREAD_ANGLE = 2.4; // ~golden angle, radians
+
 // Rarity name mapping
 const RarityNames = ['Common', 'Magic', 'Rare', 'Legendary'] as const;
 const RarityKeys = ['common', 'magic', 'rare', 'legendary'] as const;
@@ -46,14 +53,14 @@ const RarityKeys = ['common', 'magic', 'rare', 'legendary'] as const;
  * @param weights Object mapping keys to weights
  * @returns Selected key
  */
-function weightedRandom<T extends string>(weights: Record<T, number>): T {
+function weightedRandom<T extends string>(weights: Record<T, number>, random: Rng): T {
   const entries = Object.entries(weights) as [T, number][];
   const totalWeight = entries.reduce((sum, [, w]) => sum + (w as number), 0);
-  let random = Math.random() * totalWeight;
+  let roll = random.next() * totalWeight;
   
   for (const [key, weight] of entries) {
-    random -= weight as number;
-    if (random <= 0) {
+    roll -= weight as number;
+    if (roll <= 0) {
       return key;
     }
   }
@@ -65,7 +72,7 @@ function weightedRandom<T extends string>(weights: Record<T, number>): T {
 /**
  * Roll a rarity based on monster level and rarity modifier
  */
-function rollRarity(monsterLevel: number, rarityModifier: number = 1): Rarity {
+function rollRarity(monsterLevel: number, rarityModifier: number, random: Rng): Rarity {
   const weights = { ...lootTables.rarityWeights };
   
   // Apply modifier (increases chance of better rarities)
@@ -81,7 +88,7 @@ function rollRarity(monsterLevel: number, rarityModifier: number = 1): Rarity {
     weights.rare *= 1 + (monsterLevel - 10) * 0.03;
   }
   
-  const rarityKey = weightedRandom(weights as Record<string, number>);
+  const rarityKey = weightedRandom(weights as Record<string, number>, random);
   return RarityEnum[rarityKey.toUpperCase() as keyof typeof RarityEnum];
 }
 
@@ -97,12 +104,12 @@ function getValidBaseItems(level: number): BaseItem[] {
 /**
  * Roll affixes for an item based on rarity
  */
-function rollAffixes(level: number, rarity: Rarity): Array<{ id: string; value: number }> {
+function rollAffixes(level: number, rarity: Rarity, random: Rng): Array<{ id: string; value: number }> {
   const affixes: Array<{ id: string; value: number }> = [];
   
   const rarityKey = RarityKeys[rarity];
   const affixCount = lootTables.rarityAffixCount[rarityKey];
-  const numAffixes = affixCount.min + Math.floor(Math.random() * (affixCount.max - affixCount.min + 1));
+  const numAffixes = random.int(affixCount.min, affixCount.max);
   
   if (numAffixes === 0) return affixes;
   
@@ -126,7 +133,7 @@ function rollAffixes(level: number, rarity: Rarity): Array<{ id: string; value:
     if (available.length === 0) break;
     
     // Random selection
-    const affix = available[Math.floor(Math.random() * available.length)];
+    const affix = random.pick(available);
     usedIds.add(affix.id);
     
     // Find valid tier for level
@@ -135,7 +142,7 @@ function rollAffixes(level: number, rarity: Rarity): Array<{ id: string; value:
     
     // Use highest valid tier
     const tier = validTiers[validTiers.length - 1];
-    const value = tier.minValue + Math.floor(Math.random() * (tier.maxValue - tier.minValue + 1));
+    const value = random.int(tier.minValue, tier.maxValue);
     
     affixes.push({ id: affix.id, value });
   }
@@ -175,29 +182,72 @@ function generateItemName(baseItem: BaseItem, rarity: Rarity, affixes: Array<{ i
 
 /**
  * Generate a random loot drop
+ * @param random RNG to roll with (defaults to the game's loot stream)
  */
-export function generateLoot(monsterLevel: number, rarityModifier: number = 1): ItemData | null {
+export function generateLoot(
+  monsterLevel: number,
+  rarityModifier: number = 1,
+  random: Rng = rng('loot')
+): ItemData | null {
   // Roll for drop (not every kill drops loot)
-  if (Math.random() > 0.3 + (monsterLevel * 0.01)) {
+  if (random.next() > 0.3 + (monsterLevel * 0.01)) {
     return null;
   }
   
-  const rarity = rollRarity(monsterLevel, rarityModifier);
-  const validItems = getValidBaseItems(monsterLevel);
+  return generateRandomItem(monsterLevel, rarityModifier, random);
+}
+
+/**
+ * Generate a random item of a level, without the drop roll (e.g. treasure room loot)
+ * @returns null if no base item fits the level
+ */
+export function generateRandomItem(
+  itemLevel: number,
+  rarityModifier: number = 1,
+  random: Rng = rng('loot')
+): ItemData | null {
+  const rarity = rollRarity(itemLevel, rarityModifier, random);
+  const validItems = getValidBaseItems(itemLevel);
   
   if (validItems.length === 0) {
     return null;
   }
   
-  const baseItem = validItems[Math.floor(Math.random() * validItems.length)];
-  const affixes = rollAffixes(monsterLevel, rarity);
+  const baseItem = random.pick(validItems);
+  return buildItem(baseItem, itemLevel, rarity, random);
+}
+
+/**
+ * Generate a specific base item (e.g. a monster's archetype drop)
+ * @returns null if the base item id is unknown
+ */
+export function generateItem(
+  baseItemId: string,
+  itemLevel: number,
+  rarityModifier: number = 1,
+  random: Rng = rng('loot')
+): ItemData | null {
+  const baseItem = (lootTables.baseItems as BaseItem[]).find(item => item.id === baseItemId);
+  if (!baseItem) {
+    return null;
+  }
+  
+  const rarity = rollRarity(itemLevel, rarityModifier, random);
+  return buildItem(baseItem, itemLevel, rarity, random);
+}
+
+/**
+ * Roll affixes and name an item of a given rarity
+ */
+function buildItem(baseItem: BaseItem, level: number, rarity: Rarity, random: Rng): ItemData {
+  const affixes = rollAffixes(level, rarity, random);
   const name = generateItemName(baseItem, rarity, affixes);
   
   return {
     baseItemId: baseItem.id,
     name,
     rarity,
-    level: monsterLevel,
+    level,
     affixes,
   };
 }
@@ -207,7 +257,7 @@ export function generateLoot(monsterLevel: number, rarityModifier: number = 1):
  */
 export function createItemDropEntity(x: number, y: number, z: number, itemData: ItemData): EntityId {
   const gameWorld = getGameWorld();
-  const eid = gameWorld.createEntity();
+  const eid = handleIndex(gameWorld.createEntity());
   
   // Add components
   addPositionComponent(eid);
@@ -226,29 +276,44 @@ export function createItemDropEntity(x: number, y: number, z: number, itemData:
 }
 
 /**
- * Loot System - processes death events and spawns loot drops
+ * Loot System - death event subscriber that spawns loot drops
+ * Rolls the generic level-based drop plus the monster archetype's drops.
+ * A broken prop rolls its own small table instead (lootRolls and drops in props.json).
+ * Wire with gameEvents.on('death', lootSystem)
+ * @param rarityModifier improves rarity odds (e.g. on deeper floors)
  */
-export function lootSystem(): EntityId[] {
-  const droppedItems: EntityId[] = [];
-  const deaths = consumeDeathEvents();
+export function lootSystem(death: DeathEvent, rarityModifier: number = 1): EntityId[] {
+  const items: ItemData[] = [];
+  
+  const propType = death.prop !== null ? getPropType(death.prop) : undefined;
+  const rolls = propType ? propType.lootRolls : 1;
+  for (let i = 0; i < rolls; i++) {
+    const item = generateLoot(death.level, rarityModifier);
+    if (item) items.push(item);
+  }
   
-  for (const death of deaths) {
-    const item = generateLoot(death.level, 1);
+  // Archetype drops (monsters.json) and prop drops roll independently
+  const archetype = death.archetype !== null ? getMonsterArchetype(death.archetype) : undefined;
+  for (const drop of archetype?.drops ?? propType?.drops ?? []) {
+    if (!rng('loot').chance(drop.chance)) continue;
     
-    if (item) {
-      const eid = createItemDropEntity(
-        death.position.x,
-        death.position.y,
-        death.position.z,
-        item
-      );
-      droppedItems.push(eid);
-      
-      // console.log(`💎 Dropped: ${item.name} (${RarityNames[item.rarity]})`);
-    }
+    const dropItem = generateItem(drop.itemId, death.level, rarityModifier);
+    if (dropItem) items.push(dropItem);
   }
   
-  return droppedItems;
+  // console.log(`💎 Dropped: ${items.map(i => i.name).join(', ')}`);
+  
+  // Spread multiple drops around the death position so each stays clickable
+  return items.map((dropItem, i) => {
+    const angle = i * DROP_SPREAD_ANGLE;
+    const radius = i === 0 ? 0 : DROP_SPREAD_RADIUS;
+    return createItemDropEntity(
+      death.position.x + Math.cos(angle) * radius,
+      death.position.y,
+      death.position.z + Math.sin(angle) * radius,
+      dropItem
+    );
+  });
 }
 
 /**
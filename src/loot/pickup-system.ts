@@ -1,6 +1,15 @@
-import type { EntityId } from 'bitecs';
-import { Position, ItemDataStore, hasItemDrop, clearEntityComponents } from '../core/components';
-import { getGameWorld } from '../core/world';
+/**
+ * Pickup helpers - range checks and adding drops to the inventory
+ *
+ * Clicked items are picked up by the 'pickup' and 'moveToItem' commands
+ * (see simulation/commands.ts), so they are recorded and replayed with the
+ * rest of the player's input.
+ */
+import { query } from 'bitecs';
+import type { World, EntityId } from 'bitecs';
+import { Position, ItemDataStore, hasItemDrop } from '../core/components';
+import { ItemDropQuery } from '../core/queries';
+import { gameEvents } from '../core/events';
 import { addItemToInventory } from '../stores/inventory';
 
 // Pickup range in world units
@@ -57,6 +66,12 @@ export function pickupItem(
   }
   
   // console.log(`📦 Picked up: ${itemData.name} (slot ${slotIndex})`);
+  gameEvents.emit('pickup', {
+    entity: playerEid,
+    itemEid,
+    itemData,
+    inventorySlot: slotIndex,
+  });
   
   // Callback for cleanup
   if (onPickup) {
@@ -71,14 +86,12 @@ export function pickupItem(
  */
 export function pickupNearbyItems(
   playerEid: EntityId,
-  entities: Set<EntityId>,
+  world: World,
   onPickup?: (itemEid: EntityId) => void
 ): number {
   let pickedUp = 0;
   
-  for (const eid of entities) {
-    if (!hasItemDrop(eid)) continue;
-    
+  for (const eid of query(world, ItemDropQuery)) {
     if (pickupItem(playerEid, eid, onPickup)) {
       pickedUp++;
     }
@@ -86,52 +99,3 @@ export function pickupNearbyItems(
   
   return pickedUp;
 }
-
-/**
- * Create a pickup system that checks for click on items
- */
-export function createPickupSystem(
-  playerEid: EntityId,
-  onPickupEntity: (itemEid: EntityId) => void
-) {
-  return function tryPickupAt(
-    clickX: number, 
-    clickZ: number, 
-    entities: Set<EntityId>
-  ): boolean {
-    const gameWorld = getGameWorld();
-    
-    // Find closest item to click position
-    let closestEid: EntityId | null = null;
-    let closestDist = Infinity;
-    
-    for (const eid of entities) {
-      if (!hasItemDrop(eid)) continue;
-      
-      const ix = Position.x[eid];
-      const iz = Position.z[eid];
-      const dist = distanceBetween(clickX, clickZ, ix, iz);
-      
-      if (dist < 1.0 && dist < closestDist) {
-        closestDist = dist;
-        closestEid = eid;
-      }
-    }
-    
-    if (closestEid === null) return false;
-    
-    // Check if player is in range
-    if (canPickup(playerEid, closestEid)) {
-      if (pickupItem(playerEid, closestEid, onPickupEntity)) {
-        // Remove entity from world
-        clearEntityComponents(closestEid);
-        gameWorld.destroyEntity(closestEid);
-        return true;
-      }
-    } else {
-      // console.log('📦 Move closer to pick up');
-    }
-    
-    return false;
-  };
-}
@@ -1,66 +1,51 @@
 import { 
   getGameWorld, 
   Position, 
-  MoveTarget, 
-  Speed,
-  CombatStats,
-  Target,
   CombatState,
   CombatStateEnum,
-  Renderable,
-  ItemDataStore,
-  addPositionComponent,
-  addVelocityComponent,
-  addMoveTargetComponent,
-  addRenderableComponent,
-  addSpeedComponent,
-  addPlayerComponent,
-  addMonsterComponent,
-  addCombatStatsComponent,
-  addTargetComponent,
-  addCooldownsComponent,
-  addCombatStateComponent,
-  hasMonster,
   hasItemDrop,
-  hasTarget,
-  clearEntityComponents,
-  moveToTargetSystem,
-  entitySeparationSystem,
-  // Progression
-  addProgressionComponent,
-  consumeLevelUpEvents,
-  // Equipment
-  initEquipmentSlots,
-  // Base stats
-  initBaseStats,
+  hasMonster,
+  hasProp,
+  spatialIndex,
+  getInterpolatedPosition,
+  uiSystem,
+  // Events
+  gameEvents,
+  // Seeded RNG
+  randomSeed,
+  parseSeed,
+  parseDepth,
+  // Map files
+  parseDungeonMap,
+  dungeonToJson,
+  dungeonFromJson,
+  // Fog of war
+  FogOfWar,
   type EntityId,
 } from './core';
 import { GameScene, RenderObjectPool, createRenderSystem, HealthBarPool, createHealthBarSystem, FloatingTextPool, CSS2DManager, LevelUpVFX } from './render';
-import { 
-  initPhysics, 
-  getPhysicsWorld, 
-  combatSystem, 
-  cooldownSystem, 
-  damageSystem, 
-  regenerationSystem,
-  deathCleanupSystem,
-  onEntityDestroyed,
-  consumeDamageEvents,
-  enemyAISystem,
-} from './combat';
-import { lootSystem, initItemRenderer, ItemDropPool, createItemDropRenderSystem } from './loot';
-import { DungeonGenerator, TileType } from './core/dungeon-generator';
+import { initItemRenderer, ItemDropPool, createItemDropRenderSystem } from './loot';
+import { createHitFlashSystem, triggerHitFlash } from './combat';
+import {
+  Simulation,
+  WORLD_SNAPSHOT_VERSION,
+  createInputRecording,
+  parseInputRecording,
+  type InputRecording,
+  type GameCommand,
+} from './simulation';
+import type { DungeonData } from './core/dungeon-generator';
 import { DungeonRenderer } from './render/dungeon-renderer';
-import { saveCharacter, loadCharacter } from './core/persistence';
-import { MapStore } from './core/map-store';
-import RAPIER from '@dimforge/rapier3d-compat';
+import { saveCharacter, fetchCharacter, applyCharacter, type SavedCharacterData } from './core/persistence';
 import { mount } from 'svelte';
 import App from './ui/App.svelte';
-import { addItemToInventory } from './stores/inventory';
+import { inspectorOpen, selectedEntity, replayStatus } from './stores/debug';
+import { currentFloor } from './stores/dungeon';
+import { get } from 'svelte/store';
 import './style.css';
 import * as THREE from 'three';
-import { clearPath } from './core/path-store';
 
+let simulation: Simulation | null = null;
 let gameScene: GameScene | null = null;
 let objectPool: RenderObjectPool | null = null;
 let itemDropPool: ItemDropPool | null = null;
@@ -70,130 +55,25 @@ let css2dManager: CSS2DManager | null = null;
 let levelUpVFX: LevelUpVFX | null = null;
 let dungeonRenderer: DungeonRenderer | null = null;
 let playerEid: EntityId | null = null;
-// eslint-disable-next-line @typescript-eslint/no-explicit-any
-let uiApp: any = null;
 
-// Monster colors
-const MONSTER_COLOR = new THREE.Color(0xff4444);
-const PLAYER_COLOR = new THREE.Color(0x00ff88);
+// Input recording: the floor, map file and save the run started from (commands are logged by the simulation)
+let startDepth = 1;
+let startMapFile: string | null = null;
+let startCharacter: SavedCharacterData | null = null;
+// Replay mode: recording being played back, pause and single-step state
+let replay: InputRecording | null = null;
+let replayPaused = false;
+let replayStepsRequested = 0;
 
-/**
- * Create player entity with all combat components
- */
-function createPlayer(): EntityId {
-  const gameWorld = getGameWorld();
-  const eid = gameWorld.createEntity();
-  
-  // Movement components
-  addPositionComponent(eid);
-  addVelocityComponent(eid);
-  addMoveTargetComponent(eid);
-  addSpeedComponent(eid);
-  
-  // Render
-  addRenderableComponent(eid);
-  Renderable.colorR[eid] = PLAYER_COLOR.r;
-  Renderable.colorG[eid] = PLAYER_COLOR.g;
-  Renderable.colorB[eid] = PLAYER_COLOR.b;
-  
-  // Combat
-  addCombatStatsComponent(eid);
-  addTargetComponent(eid);
-  addCooldownsComponent(eid);
-  addCombatStateComponent(eid);
-  addPlayerComponent(eid);
-  
-  // Set initial values
-  Position.x[eid] = 0;
-  Position.y[eid] = 0;
-  Position.z[eid] = 0;
-  Speed.value[eid] = 8;
-  
-  // Player stats
-  CombatStats.hp[eid] = 100;
-  CombatStats.maxHp[eid] = 100;
-  CombatStats.mp[eid] = 50;
-  CombatStats.maxMp[eid] = 50;
-  CombatStats.attackSpeed[eid] = 1.5; // 1.5 attacks per second
-  CombatStats.attackRange[eid] = 2.0;
-  CombatStats.damageMin[eid] = 10;
-  CombatStats.damageMax[eid] = 20;
-  CombatStats.armor[eid] = 5;
-  CombatStats.level[eid] = 1;
-  CombatStats.healthRegen[eid] = 5; // 5 HP per second
-  
-  // Store initial base stats (used for stat recalculation)
-  initBaseStats(eid, {
-    maxHp: 100,
-    maxMp: 50,
-    attackSpeed: 1.5,
-    attackRange: 2.0,
-    damageMin: 10,
-    damageMax: 20,
-    armor: 5,
-    healthRegen: 5,
-  });
-  
-  // Progression (XP/Level system)
-  addProgressionComponent(eid, 1);
-  
-  // Equipment slots
-  initEquipmentSlots(eid);
-  
-  return eid;
-}
+// A dropped replay file is handed to the next page load through session storage
+const REPLAY_STORAGE_KEY = 'aether-slash-replay';
+// Same for a dropped map file (JSON or ASCII, see core/dungeon-io.ts)
+const MAP_STORAGE_KEY = 'aether-slash-map';
+// Hand-authored maps shipped with the game, started with ?map=<file name>
+const BUNDLED_MAPS = import.meta.glob<string>('./data/maps/*.{txt,json}', { query: '?raw', import: 'default', eager: true });
 
 /**
- * Spawn a monster at position
- */
-function spawnMonster(x: number, z: number, level: number = 1): EntityId {
-  const gameWorld = getGameWorld();
-  const eid = gameWorld.createEntity();
-  
-  // Movement components
-  addPositionComponent(eid);
-  addVelocityComponent(eid);
-  addMoveTargetComponent(eid);
-  addSpeedComponent(eid);
-  
-  // Render
-  addRenderableComponent(eid);
-  Renderable.colorR[eid] = MONSTER_COLOR.r;
-  Renderable.colorG[eid] = MONSTER_COLOR.g;
-  Renderable.colorB[eid] = MONSTER_COLOR.b;
-  
-  // Combat
-  addCombatStatsComponent(eid);
-  addTargetComponent(eid);
-  addCooldownsComponent(eid);
-  addCombatStateComponent(eid);
-  addMonsterComponent(eid);
-  
-  // Set position
-  Position.x[eid] = x;
-  Position.y[eid] = 0;
-  Position.z[eid] = z;
-  Speed.value[eid] = 3;
-  
-  // Monster stats (scales with level)
-  CombatStats.hp[eid] = 30 + level * 10;
-  CombatStats.maxHp[eid] = 30 + level * 10;
-  CombatStats.mp[eid] = 0;
-  CombatStats.maxMp[eid] = 0;
-  CombatStats.attackSpeed[eid] = 0.8;
-  CombatStats.attackRange[eid] = 1.5;
-  CombatStats.damageMin[eid] = 3 + level * 2;
-  CombatStats.damageMax[eid] = 7 + level * 3;
-  CombatStats.armor[eid] = level * 2;
-  CombatStats.level[eid] = level;
-  
-  // console.log(`👹 Monster spawned at (${x}, ${z}) - Level ${level}, HP: ${CombatStats.hp[eid]}`);
-  
-  return eid;
-}
-
-/**
- * Handle click - move or attack
+ * Handle click - move, attack, pick up or use a door
  */
 function setupClickHandler(scene: GameScene): void {
   const raycaster = new THREE.Raycaster();
@@ -201,7 +81,7 @@ function setupClickHandler(scene: GameScene): void {
   const canvas = scene.renderer.domElement;
   
   canvas.addEventListener('click', (event: MouseEvent) => {
-    if (playerEid === null) return;
+    if (playerEid === null || !simulation) return;
     
     const rect = canvas.getBoundingClientRect();
     mouse.x = ((event.clientX - rect.left) / rect.width) * 2 - 1;
@@ -209,8 +89,14 @@ function setupClickHandler(scene: GameScene): void {
     
     raycaster.setFromCamera(mouse, scene.isometricCamera.camera);
     
-    const gameWorld = getGameWorld();
-    const entities = gameWorld.getEntities();
+    // Inspector open - clicking an entity selects it instead of acting on it
+    if (get(inspectorOpen)) {
+      const [hit] = spatialIndex.queryRay(raycaster.ray.origin, raycaster.ray.direction, 1.0, { centerHeight: 0.5 });
+      if (hit !== undefined) {
+        selectedEntity.set(hit);
+        return;
+      }
+    }
     
     // Calculate click position on ground first
     const ground = scene.scene.getObjectByName('ground');
@@ -224,150 +110,115 @@ function setupClickHandler(scene: GameScene): void {
     
     // Check for item pickup first
     if (clickPoint) {
-      let foundItem = false;
-      for (const eid of entities) {
+      for (const eid of spatialIndex.queryRadius(clickPoint.x, clickPoint.z, 1.5)) {
         if (!hasItemDrop(eid)) continue;
-        foundItem = true;
         
         const ix = Position.x[eid];
         const iz = Position.z[eid];
         const distToClick = Math.sqrt((clickPoint.x - ix) ** 2 + (clickPoint.z - iz) ** 2);
         
-        // console.log(`🔍 Item ${eid} at (${ix.toFixed(1)}, ${iz.toFixed(1)}), click at (${clickPoint.x.toFixed(1)}, ${clickPoint.z.toFixed(1)}), dist=${distToClick.toFixed(2)}`);
-        
         if (distToClick < 1.5) {
           // Clicked on item - check if player is close enough
           const px = Position.x[playerEid];
           const pz = Position.z[playerEid];
           const distToPlayer = Math.sqrt((px - ix) ** 2 + (pz - iz) ** 2);
           
-          // console.log(`📍 Player at (${px.toFixed(1)}, ${pz.toFixed(1)}), dist to item=${distToPlayer.toFixed(2)}`);
-          
           if (distToPlayer <= 2.5) {
             // Pick up the item
-            const itemData = ItemDataStore.get(eid);
-            if (itemData) {
-              const slotIndex = addItemToInventory(eid, itemData);
-              if (slotIndex >= 0) {
-                // console.log(`📦 Picked up: ${itemData.name}`);
-                // Remove item from world
-                itemDropPool?.removeItemDrop(eid);
-                clearEntityComponents(eid);
-                gameWorld.destroyEntity(eid);
-                return;
-              } else {
-                // console.log('📦 Inventory full!');
-                return;
-              }
-            } else {
-              // console.log('⚠️ No item data for eid', eid);
-            }
+            simulation.queueCommand({ type: 'pickup', item: getGameWorld().getHandle(eid) });
           } else {
             // Move towards item
-            MoveTarget.x[playerEid] = ix;
-            MoveTarget.y[playerEid] = 0;
-            MoveTarget.z[playerEid] = iz;
-            MoveTarget.active[playerEid] = 1;
-            
-            // Clear existing path to force recalculation
-            clearPath(playerEid);
-            
-            // Clear target entity if any
-            if (hasTarget(playerEid)) {
-              Target.entityId[playerEid] = -1;
-            }
-            // console.log('📦 Moving to pick up item');
-            return;
+            simulation.queueCommand({ type: 'moveToItem', x: ix, z: iz });
           }
-        }
-      }
-      if (!foundItem) {
-        // Check how many item drops exist
-        let itemCount = 0;
-        for (const eid of entities) {
-          if (hasItemDrop(eid)) itemCount++;
-        }
-        if (itemCount > 0) {
-          // console.log(`📍 ${itemCount} items exist but none clicked`);
+          return;
         }
       }
     }
     
-    // Check for monster hits
-    for (const eid of entities) {
-      if (!hasMonster(eid)) continue;
-      if (CombatState.state[eid] === CombatStateEnum.DEAD) continue;
-      
-      // Simple distance check from ray to monster position
-      const monsterPos = new THREE.Vector3(Position.x[eid], Position.y[eid] + 0.5, Position.z[eid]);
-      const rayOrigin = raycaster.ray.origin.clone();
-      const rayDir = raycaster.ray.direction.clone();
+    // Check for monster and prop hits (nearest along the ray first)
+    const hits = spatialIndex.queryRay(raycaster.ray.origin, raycaster.ray.direction, 1.0, { centerHeight: 0.5 });
+    for (const eid of hits) {
+      if (!(hasMonster(eid) || hasProp(eid)) || CombatState.state[eid] === CombatStateEnum.DEAD) continue;
+      // Can't target what the fog of war hides
+      if (!FogOfWar.isVisibleAt(Position.x[eid], Position.z[eid])) continue;
       
-      // Project monster onto ray
-      const toMonster = monsterPos.clone().sub(rayOrigin);
-      const projection = toMonster.dot(rayDir);
-      const closestPoint = rayOrigin.clone().add(rayDir.clone().multiplyScalar(projection));
-      const distance = closestPoint.distanceTo(monsterPos);
-      
-      if (distance < 1.0 && projection > 0) {
-        // Clicked on monster - set as target
-        Target.entityId[playerEid] = eid;
-        CombatState.state[playerEid] = CombatStateEnum.MOVING_TO_TARGET;
-        // console.log(`⚔️ Targeting monster ${eid}`);
-        return;
-      }
+      // Clicked on monster or prop - set as target
+      simulation.queueCommand({ type: 'attack', target: getGameWorld().getHandle(eid) });
+      return;
     }
     
-    // No monster hit - clear target and move
-    Target.entityId[playerEid] = -1;
-    CombatState.state[playerEid] = CombatStateEnum.IDLE;
-    
-    // Move to click point
-    if (clickPoint) {
-      MoveTarget.x[playerEid] = clickPoint.x;
-      MoveTarget.y[playerEid] = 0;
-      MoveTarget.z[playerEid] = clickPoint.z;
-      MoveTarget.active[playerEid] = 1;
+    // Clicked a door - open or close it
+    const door = dungeonRenderer?.pickDoor(raycaster);
+    if (door) {
+      simulation.queueCommand({ type: 'door', x: door.x, z: door.z });
+      return;
     }
+    
+    // No monster hit - clear target and move to click point
+    simulation.queueCommand(
+      clickPoint ? { type: 'move', x: clickPoint.x, z: clickPoint.z } : { type: 'clearTarget' }
+    );
   });
   
   // Right-click to clear target
   canvas.addEventListener('contextmenu', (event: MouseEvent) => {
     event.preventDefault();
-    if (playerEid !== null) {
-      Target.entityId[playerEid] = -1;
-      CombatState.state[playerEid] = CombatStateEnum.IDLE;
-      // console.log('🎯 Target cleared');
-    }
+    simulation?.queueCommand({ type: 'clearTarget' });
   });
 }
 
 /**
  * Initialize the game
+ * @param map dungeon to start in (a loaded map file); a new floor is generated if omitted
  */
-async function init(): Promise<void> {
+async function init(map?: DungeonData): Promise<void> {
   const container = document.getElementById('game-canvas');
   if (!container) {
     throw new Error('Game canvas container not found');
   }
 
-  // Initialize physics
-  await initPhysics();
+  // Replay a dropped recording from its own start state, otherwise
+  // fetch the saved character first - a saved world decides the seed and layout
+  replay = takePendingReplay();
+  // Recordings carry the map they started in - a dropped or ?map= map doesn't apply
+  if (replay) map = replay.map !== undefined ? dungeonFromJson(replay.map) : undefined;
+  const fetched = replay ? replay.character : await fetchCharacter('local-player');
+  
+  // A shared ?seed=&depth= link regenerates that floor - a saved world from
+  // another seed or floor is left out (the character itself still loads).
+  // So is any saved world when starting in a loaded map.
+  const params = new URLSearchParams(location.search);
+  const urlSeed = replay ? null : parseSeed(params.get('seed'));
+  const urlDepth = parseDepth(params.get('depth')) ?? 1;
+  const savedWorld = fetched?.world?.version === WORLD_SNAPSHOT_VERSION && !map
+    && (urlSeed === null || (fetched.world.seed === urlSeed && (fetched.world.dungeon.depth ?? 1) === urlDepth))
+    ? fetched.world
+    : null;
+  // Without its world the saved position is meaningless in the new dungeon
+  const saved = fetched && { ...fetched, world: savedWorld ?? undefined };
+  startCharacter = saved;
+  
+  // Create the simulation (physics, ECS world) and seed every RNG stream
+  // so a session can be reproduced from its seed
+  const seed = replay?.seed ?? urlSeed ?? savedWorld?.seed ?? randomSeed();
+  simulation = await Simulation.create({ seed });
   
   // Initialize item rendering
   initItemRenderer();
 
-  // Create ECS world and scene
-  const gameWorld = getGameWorld();
+  // Create scene
+  const gameWorld = simulation.gameWorld;
   gameScene = new GameScene(container);
   objectPool = new RenderObjectPool(gameScene.scene);
   itemDropPool = new ItemDropPool(gameScene.scene);
 
-  // Create render systems
-  const renderSystem = createRenderSystem(objectPool);
-  const itemDropRenderSystem = createItemDropRenderSystem(itemDropPool);
+  // Create render systems (they hook into query enter/exit for mesh lifetimes)
+  const world = gameWorld.world;
+  const renderSystem = createRenderSystem(objectPool, world);
+  const itemDropRenderSystem = createItemDropRenderSystem(itemDropPool, world);
   healthBarPool = new HealthBarPool(gameScene.scene);
-  const healthBarSystem = createHealthBarSystem(healthBarPool, gameScene.isometricCamera.camera);
+  const healthBarSystem = createHealthBarSystem(healthBarPool, gameScene.isometricCamera.camera, world);
+  const hitFlashSystem = createHitFlashSystem(objectPool, world);
   
   // Create floating combat text system
   css2dManager = new CSS2DManager(container);
@@ -376,54 +227,39 @@ async function init(): Promise<void> {
   // Create level-up VFX system
   levelUpVFX = new LevelUpVFX(gameScene.scene);
   
-  // Register cleanup callback for dead entities
-  onEntityDestroyed((eid) => {
-    objectPool?.release(Renderable.objectIndex[eid]);
-    healthBarPool?.removeHealthBar(eid);
-  });
-
   // Create player
-  playerEid = createPlayer();
-  
-  // Generate Dungeon
-  const dungeonGen = new DungeonGenerator(80, 80);
-  console.time('MapGeneration');
-  const dungeonData = dungeonGen.generate();
-  console.timeEnd('MapGeneration');
+  playerEid = simulation.createPlayer();
   
-  // Init MapStore for collision
-  MapStore.init(dungeonData.width, dungeonData.height, dungeonData.tiles);
+  let dungeonData: DungeonData;
+  if (savedWorld) {
+    // Resume the saved run: same layout, monsters and drops
+    dungeonData = simulation.restoreSnapshot(savedWorld);
+  } else if (map) {
+    // Hand-authored or exported map: populate it from its own spawns
+    // (kept as JSON for the recording, before doors open or props break)
+    startMapFile = dungeonToJson(map);
+    dungeonData = simulation.enterFloor(map);
+  } else {
+    // Generate and populate the first floor (layout, colliders, monsters)
+    // - a replay starts on the floor its run did
+    dungeonData = simulation.startFloor(replay ? replay.depth ?? 1 : urlSeed !== null ? urlDepth : 1);
+  }
+
+  startDepth = dungeonData.depth;
 
   // Render Dungeon
   dungeonRenderer = new DungeonRenderer(gameScene.scene);
   dungeonRenderer.generateMesh(dungeonData);
-
-  // Setup Physics Colliders for Walls
-  const physicsWorld = getPhysicsWorld();
-  const wallColliderDesc = RAPIER.ColliderDesc.cuboid(0.5, 1, 0.5); // 1x2x1 wall
-  
-  // Optimize: In a real app we'd merge colliders. Here we create one per wall tile for simplicity.
-  // Given 50x50 map, worst case 2500 colliders (acceptable for Rapier).
-  for (let y = 0; y < dungeonData.height; y++) {
-    for (let x = 0; x < dungeonData.width; x++) {
-       if (dungeonData.tiles[y][x] === TileType.WALL) {
-           const posX = x - dungeonData.width / 2;
-           const posZ = y - dungeonData.height / 2;
-           
-           const wallBodyDesc = RAPIER.RigidBodyDesc.fixed()
-                .setTranslation(posX, 1, posZ);
-           const wallBody = physicsWorld.createRigidBody(wallBodyDesc);
-           physicsWorld.createCollider(wallColliderDesc, wallBody);
-       }
-    }
-  }
+  announceFloor(dungeonData);
 
   // Set Player Position (default from dungeon)
   Position.x[playerEid] = dungeonData.playerStart.x - dungeonData.width / 2;
   Position.z[playerEid] = dungeonData.playerStart.y - dungeonData.height / 2;
 
-  // Try to Load Saved Character (Overwrites position if found)
-  await loadCharacter(playerEid, 'local-player');
+  // Apply Saved Character (Overwrites position if the save has a world snapshot)
+  if (saved) {
+    applyCharacter(playerEid, saved);
+  }
 
   // Force update camera to player immediately
   if (gameScene) {
@@ -434,111 +270,102 @@ async function init(): Promise<void> {
       );
   }
 
-  // Spawn Monsters
-  for (const spawn of dungeonData.enemySpawns) {
-      const mx = spawn.x - dungeonData.width / 2;
-      const mz = spawn.y - dungeonData.height / 2;
-      // Random level based on distance from center? Or just random.
-      spawnMonster(mx, mz, Math.floor(Math.random() * 3) + 1);
-  }
-
   // Setup click handler for targeting
   setupClickHandler(gameScene);
   
   // Setup camera controls
   setupCameraControls(gameScene);
   
+  // Replay and map files can be dropped anywhere on the page
+  setupFileDrop();
+  
+  if (replay) {
+    simulation.startReplay(replay.commands);
+    updateReplayStatus();
+  }
+  
   // Mount Svelte UI
   const uiOverlay = document.getElementById('ui-overlay');
   if (uiOverlay) {
-    uiApp = mount(App, { 
+    mount(App, { 
       target: uiOverlay,
-      props: { playerEid }
+      props: { playerEid, queueCommand: (command: GameCommand) => simulation?.queueCommand(command) }
     });
   }
 
-  // Start game loop
-  gameScene.start((deltaTime: number) => {
-    const entities = gameWorld.getEntities() as Set<number>;
-    
-    // Update cooldowns
-    cooldownSystem(entities, deltaTime);
-    
-    // Enemy AI - detect and target player
-    enemyAISystem(entities, playerEid, deltaTime);
-    
-    // Combat logic
-    combatSystem(entities, deltaTime);
-    
-    // Process damage
-    damageSystem(entities);
-    
-    // Process damage events for floating text
-    const damageEvents = consumeDamageEvents();
-    for (const dmgEvent of damageEvents) {
-      floatingTextPool?.spawnDamage(
-        dmgEvent.position.x,
-        dmgEvent.position.y,
-        dmgEvent.position.z,
-        dmgEvent.damage,
-        dmgEvent.isCrit
-      );
-    }
-    
-    // Update floating text animations
-    floatingTextPool?.update(deltaTime);
-    
-    // Process level-up events for VFX
-    const levelUps = consumeLevelUpEvents();
-    for (const levelUp of levelUps) {
-      levelUpVFX?.spawn(
-        Position.x[levelUp.entity],
-        Position.y[levelUp.entity],
-        Position.z[levelUp.entity]
-      );
-    }
-    
-    // Update level-up VFX
-    levelUpVFX?.update(deltaTime);
-    
-    // Health regeneration
-    regenerationSystem(entities, deltaTime);
-    
-    // Movement
-    moveToTargetSystem(entities, deltaTime);
-    
-    // Prevent entity overlapping
-    entitySeparationSystem(entities, deltaTime);
-    
-    // Handle deaths and spawn loot
-    const dead = deathCleanupSystem(entities);
-    if (dead.length > 0) {
-      lootSystem();
-    }
+  const cameraTarget = { x: 0, y: 0, z: 0 };
 
-    // Update camera to follow player (BEFORE rendering)
+  // Event subscribers (delivered when the bus is flushed at the end of each tick)
+  // Next floor: swap the dungeon mesh and snap the camera to the new start
+  gameEvents.on('floorChange', ({ dungeon }) => {
+    dungeonRenderer?.generateMesh(dungeon);
     if (playerEid !== null) {
-      gameScene!.isometricCamera.setTarget(
-        Position.x[playerEid],
-        Position.y[playerEid],
-        Position.z[playerEid]
-      );
-      gameScene!.isometricCamera.update(deltaTime);
-    }
-    
-    // Render
-    renderSystem(entities);
-    healthBarSystem(entities);
-    itemDropRenderSystem(entities);
-    
-    // Render CSS2D layer (floating text)
-    css2dManager?.render(gameScene!.scene, gameScene!.isometricCamera.camera);
-    
-    // Update player UI
-    if (playerEid !== null && uiApp?.updatePlayerHealth) {
-      uiApp.updatePlayerHealth(CombatStats.hp[playerEid], CombatStats.maxHp[playerEid]);
+      gameScene?.isometricCamera.setTarget(Position.x[playerEid], Position.y[playerEid], Position.z[playerEid]);
     }
+    announceFloor(dungeon);
   });
+  
+  // Doors opened or closed by the player or monsters
+  gameEvents.on('door', ({ tiles, open }) => dungeonRenderer?.setDoorState(tiles, open));
+  
+  // Hit flash on damaged entities
+  gameEvents.on('damage', (dmgEvent) => triggerHitFlash(dmgEvent.target));
+  
+  // Floating text for damage
+  gameEvents.on('damage', (dmgEvent) => {
+    floatingTextPool?.spawnDamage(
+      dmgEvent.position.x,
+      dmgEvent.position.y,
+      dmgEvent.position.z,
+      dmgEvent.damage,
+      dmgEvent.isCrit
+    );
+  });
+  
+  // Level-up VFX
+  gameEvents.on('levelUp', (levelUp) => {
+    levelUpVFX?.spawn(
+      Position.x[levelUp.entity],
+      Position.y[levelUp.entity],
+      Position.z[levelUp.entity]
+    );
+  });
+
+  // Render phase systems (run once per frame, after any fixed ticks)
+  const scene = gameScene;
+  simulation.scheduler
+    .register({ name: 'floatingText', phase: 'render', run: (_world, dt) => floatingTextPool?.update(dt) })
+    .register({ name: 'levelUpVFX', phase: 'render', run: (_world, dt) => levelUpVFX?.update(dt) })
+    // Camera follows the player BEFORE rendering
+    .register({ name: 'camera', phase: 'render', before: ['render'], run: (_world, dt, alpha) => {
+      if (playerEid === null) return;
+      const pos = getInterpolatedPosition(playerEid, alpha, cameraTarget);
+      scene.isometricCamera.setTarget(pos.x, pos.y, pos.z);
+      scene.isometricCamera.update(dt);
+    } })
+    .register({ name: 'render', phase: 'render', run: (world, _dt, alpha) => renderSystem(world, alpha) })
+    .register({ name: 'hitFlash', phase: 'render', after: ['render'], run: (world, dt) => hitFlashSystem(world, dt) })
+    .register({ name: 'healthBars', phase: 'render', after: ['camera'], run: (world, _dt, alpha) => healthBarSystem(world, alpha) })
+    .register({ name: 'itemDrops', phase: 'render', run: (world) => itemDropRenderSystem(world) })
+    .register({ name: 'fog', phase: 'render', run: () => dungeonRenderer?.updateFog() })
+    // Walls hiding the player are cut down once the camera has moved
+    .register({ name: 'wallOcclusion', phase: 'render', after: ['camera', 'fog'], run: (_world, dt) => {
+      if (playerEid === null) return;
+      dungeonRenderer?.updateOcclusion(cameraTarget, scene.isometricCamera.camera, dt);
+    } })
+    // CSS2D layer (floating text) after the camera has moved
+    .register({ name: 'css2d', phase: 'render', after: ['camera', 'floatingText'], run: () => {
+      css2dManager?.render(scene.scene, scene.isometricCamera.camera);
+    } })
+    // Player UI stores
+    .register({ name: 'ui', phase: 'render', run: () => uiSystem(playerEid) });
+
+  // Start game loop: simulation runs at a fixed tick, rendering every frame
+  // (a held replay renders the current tick instead of interpolating)
+  gameScene.start(
+    (fixedDelta: number) => stepSimulation(fixedDelta),
+    (deltaTime: number, alpha: number) => simulation!.scheduler.runFrame(world, deltaTime, isReplayHeld() ? 1 : alpha)
+  );
 
   // console.log('🎮 Aether Slash initialized');
   // console.log('📍 Click on grid to move');
@@ -547,6 +374,179 @@ async function init(): Promise<void> {
   // console.log('🎥 Q/E to rotate camera, scroll to zoom');
 }
 
+/**
+ * Fixed tick - replays hold when paused or at the end of the recording
+ */
+function stepSimulation(fixedDelta: number): void {
+  if (!simulation) return;
+
+  if (replay) {
+    if (isReplayHeld()) {
+      if (replayStepsRequested === 0) return;
+      replayStepsRequested--;
+    }
+    simulation.step(fixedDelta);
+    updateReplayStatus();
+    return;
+  }
+
+  simulation.step(fixedDelta);
+}
+
+function updateReplayStatus(): void {
+  if (!replay) return;
+  replayStatus.set({ tick: simulation?.tick ?? 0, totalTicks: replay.ticks, paused: isReplayHeld() });
+}
+
+function isReplayHeld(): boolean {
+  return replay !== null && (replayPaused || (simulation?.tick ?? 0) >= replay.ticks);
+}
+
+/**
+ * Link that regenerates a floor of a run (?seed=&depth=)
+ */
+function getSeedUrl(seed: number, depth: number): string {
+  const url = new URL(location.href);
+  url.searchParams.set('seed', String(seed));
+  url.searchParams.set('depth', String(depth));
+  return url.toString();
+}
+
+/**
+ * Publish the current floor to the UI
+ */
+function announceFloor(dungeon: DungeonData): void {
+  if (!simulation) return;
+  const seedUrl = getSeedUrl(simulation.seed, dungeon.depth);
+  currentFloor.set({ depth: dungeon.depth, seed: simulation.seed, seedUrl });
+}
+
+/**
+ * Recording queued by a dropped file (consumed once)
+ */
+function takePendingReplay(): InputRecording | null {
+  const json = sessionStorage.getItem(REPLAY_STORAGE_KEY);
+  if (!json) return null;
+  sessionStorage.removeItem(REPLAY_STORAGE_KEY);
+
+  try {
+    return parseInputRecording(json);
+  } catch (err) {
+    console.error('Invalid replay file:', err);
+    return null;
+  }
+}
+
+/**
+ * Map queued by a dropped file (consumed once)
+ */
+function takePendingMap(): DungeonData | null {
+  const text = sessionStorage.getItem(MAP_STORAGE_KEY);
+  if (!text) return null;
+  sessionStorage.removeItem(MAP_STORAGE_KEY);
+
+  try {
+    return parseDungeonMap(text);
+  } catch (err) {
+    console.error('Invalid map file:', err);
+    return null;
+  }
+}
+
+/**
+ * Bundled map named by ?map= (e.g. ?map=tutorial for data/maps/tutorial.txt)
+ */
+function takeUrlMap(): DungeonData | null {
+  const name = new URLSearchParams(location.search).get('map');
+  if (!name) return null;
+
+  const path = Object.keys(BUNDLED_MAPS).find(p => p.replace(/^.*\/|\.\w+$/g, '') === name);
+  if (!path) {
+    console.error(`Unknown map "${name}"`);
+    return null;
+  }
+  try {
+    return parseDungeonMap(BUNDLED_MAPS[path]);
+  } catch (err) {
+    console.error(`Invalid map "${name}":`, err);
+    return null;
+  }
+}
+
+/**
+ * Download the current floor as a JSON map file
+ */
+function downloadMap(): void {
+  const dungeon = simulation?.dungeon;
+  if (!dungeon) return;
+
+  const blob = new Blob([dungeonToJson(dungeon)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `aether-map-${dungeon.seed}-${dungeon.depth}.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Download the seed, start state and commands of the current run
+ */
+function downloadRecording(): void {
+  if (!simulation) return;
+
+  const recording = createInputRecording(simulation.seed, startDepth, startMapFile, startCharacter, simulation.commands, simulation.tick);
+  const blob = new Blob([JSON.stringify(recording)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `aether-replay-${recording.seed}-${recording.ticks}.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Dropping a recording on the page reloads the game in replay mode,
+ * dropping a map file (.json map or .txt ASCII map) reloads it in that map
+ */
+function setupFileDrop(): void {
+  window.addEventListener('dragover', (event: DragEvent) => event.preventDefault());
+  window.addEventListener('drop', async (event: DragEvent) => {
+    event.preventDefault();
+    const file = event.dataTransfer?.files[0];
+    if (!file) return;
+
+    const text = await file.text();
+    const key = isMapFile(file.name, text) ? MAP_STORAGE_KEY : REPLAY_STORAGE_KEY;
+    try {
+      if (key === MAP_STORAGE_KEY) {
+        parseDungeonMap(text);
+      } else {
+        parseInputRecording(text);
+      }
+    } catch (err) {
+      const kind = key === MAP_STORAGE_KEY ? 'map' : 'replay';
+      alert(`Invalid ${kind} file: ` + (err instanceof Error ? err.message : String(err)));
+      return;
+    }
+
+    sessionStorage.setItem(key, text);
+    location.reload();
+  });
+}
+
+/**
+ * ASCII maps are plain text; JSON maps have rows where recordings have commands
+ */
+function isMapFile(name: string, text: string): boolean {
+  if (!name.toLowerCase().endsWith('.json')) return true;
+  try {
+    return Array.isArray((JSON.parse(text) as { rows?: unknown }).rows);
+  } catch {
+    return false;
+  }
+}
+
 /**
  * Setup camera keyboard controls
  */
@@ -556,17 +556,36 @@ function setupCameraControls(scene: GameScene): void {
     switch (event.key.toLowerCase()) {
       // Spawn new monster with 'M' key (debug)
       case 'm':
-        const x = (Math.random() - 0.5) * 20;
-        const z = (Math.random() - 0.5) * 20;
-        const level = Math.floor(Math.random() * 3) + 1;
-        spawnMonster(x, z, level);
+        simulation?.queueCommand({ type: 'spawnMonster' });
+        break;
+      // Export the current floor as a map file with F7
+      case 'f7':
+        event.preventDefault();
+        downloadMap();
+        break;
+      // Export the input recording of this run with F8
+      case 'f8':
+        event.preventDefault();
+        downloadRecording();
+        break;
+      // Replay: pause with P, step one tick with '.' while paused
+      case 'p':
+        if (replay) {
+          replayPaused = !replayPaused;
+          updateReplayStatus();
+        }
+        break;
+      case '.':
+        if (replay && isReplayHeld()) replayStepsRequested++;
         break;
       // Quick Save with F9 or K
       case 'f9':
       case 'k':
-        if (playerEid !== null) {
+        if (replay) {
+            console.warn('Saving is disabled during replay');
+        } else if (playerEid !== null) {
             console.log('Saving character...');
-            saveCharacter(playerEid, 'local-player')
+            saveCharacter(playerEid, 'local-player', simulation?.captureSnapshot())
               .then(() => alert('Game Saved!'))
               .catch(err => {
                   console.error(err);
@@ -594,13 +613,16 @@ function cleanup(): void {
   itemDropPool?.dispose();
   objectPool?.dispose();
   gameScene?.dispose();
+  simulation?.dispose();
 }
 
 // Initialize on DOM ready
+// A dropped map file wins over ?map=
+const startMap = takePendingMap() ?? takeUrlMap() ?? undefined;
 if (document.readyState === 'loading') {
-  document.addEventListener('DOMContentLoaded', () => init());
+  document.addEventListener('DOMContentLoaded', () => init(startMap));
 } else {
-  init();
+  init(startMap);
 }
 
 // Cleanup on unload
@@ -1,11 +1,82 @@
 
 import * as THREE from 'three';
 import { type DungeonData, TileType } from '../core/dungeon-generator';
+import { biomeForDepth } from '../core/biomes';
+import { FogOfWar } from '../core/fog-of-war';
+import { HAZARDS, isHazardTile } from '../core/hazards';
+
+// Closed door panel height; open doors shrink to a threshold strip
+const DOOR_HEIGHT = 1.8;
+const OPEN_DOOR_SCALE = 0.04;
+// Brightness of explored tiles the player can't see right now
+const REMEMBERED_BRIGHTNESS = 0.35;
+
+const LIT_COLOR = new THREE.Color(1, 1, 1);
+const REMEMBERED_COLOR = new THREE.Color(REMEMBERED_BRIGHTNESS, REMEMBERED_BRIGHTNESS, REMEMBERED_BRIGHTNESS);
+
+// Scratch object for building instance matrices
+const instanceDummy = new THREE.Object3D();
+
+// Hazard overlays sit just above the floor
+const HAZARD_HEIGHT = 0.04;
+
+// Tiles per chunk side: each chunk is its own set of meshes, frustum culled separately
+const CHUNK_SIZE = 16;
+// Walls standing this far in front of the player (towards the camera) and this
+// far to either side of the line of sight are cut down so the player stays visible
+const OCCLUSION_DEPTH = 3.5;
+const OCCLUSION_HALF_WIDTH = 1.5;
+// Height scale of a cut wall, and how fast walls shrink and grow back (scale per second)
+const WALL_STUB_SCALE = 0.15;
+const WALL_CUT_SPEED = 6;
+
+function isFloorTile(tile: TileType): boolean {
+  return tile === TileType.FLOOR || tile === TileType.DOOR || tile === TileType.DOOR_OPEN || isHazardTile(tile);
+}
+
+/** Instances of one mesh, with the tile index (y * width + x) of each */
+interface InstanceLayer {
+  mesh: THREE.InstancedMesh;
+  tiles: number[];
+  /** Base colour of each instance (white if omitted) */
+  colors?: THREE.Color[];
+}
+
+/** CHUNK_SIZE x CHUNK_SIZE block of the map */
+interface DungeonChunk {
+  floors: InstanceLayer | null;
+  walls: InstanceLayer | null;
+  hazards: InstanceLayer | null;
+  /** Current height scale of each wall (1 = full height, WALL_STUB_SCALE = cut) */
+  wallScale: Float32Array;
+  /** Grid bounds (min inclusive, max exclusive) */
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
 
 export class DungeonRenderer {
   private scene: THREE.Scene;
-  private floorMesh: THREE.InstancedMesh | null = null;
-  private wallMesh: THREE.InstancedMesh | null = null;
+  private chunks: DungeonChunk[] = [];
+  // Chunks with walls below full height (restored even once the player has left them)
+  private cutChunks = new Set<DungeonChunk>();
+  // Shared by every chunk
+  private floorGeometry: THREE.BoxGeometry | null = null;
+  private wallGeometry: THREE.BoxGeometry | null = null;
+  private hazardGeometry: THREE.BoxGeometry | null = null;
+  private floorMaterial: THREE.MeshStandardMaterial | null = null;
+  private wallMaterial: THREE.MeshStandardMaterial | null = null;
+  private hazardMaterial: THREE.MeshStandardMaterial | null = null;
+  private stairsMesh: THREE.Mesh | null = null;
+  // One panel per door tile, keyed by "x,y" grid position
+  private doorMeshes = new Map<string, THREE.Mesh>();
+  private doorGeometry: THREE.BoxGeometry | null = null;
+  private doorMaterial: THREE.MeshStandardMaterial | null = null;
+  private rememberedDoorMaterial: THREE.MeshStandardMaterial | null = null;
+  private mapSize = { width: 0, height: 0 };
+  // Fog of war version the meshes were last shaded for
+  private fogVersion = -1;
 
   constructor(scene: THREE.Scene) {
     this.scene = scene;
@@ -13,78 +84,296 @@ export class DungeonRenderer {
 
   generateMesh(dungeon: DungeonData) {
     this.dispose();
+    this.mapSize = { width: dungeon.width, height: dungeon.height };
 
-    const floorGeometry = new THREE.BoxGeometry(1, 0.2, 1);
-    const wallGeometry = new THREE.BoxGeometry(1, 2, 1);
+    this.floorGeometry = new THREE.BoxGeometry(1, 0.2, 1);
+    this.wallGeometry = new THREE.BoxGeometry(1, 2, 1);
+    this.hazardGeometry = new THREE.BoxGeometry(0.9, HAZARD_HEIGHT, 0.9);
 
-    const floorMaterial = new THREE.MeshStandardMaterial({ color: 0x444444, roughness: 0.8 });
-    const wallMaterial = new THREE.MeshStandardMaterial({ color: 0x888888, roughness: 0.5 });
+    // Each biome has its own palette
+    const biome = biomeForDepth(dungeon.depth);
+    this.floorMaterial = new THREE.MeshStandardMaterial({ color: biome.floorColor, roughness: 0.8 });
+    this.wallMaterial = new THREE.MeshStandardMaterial({ color: biome.wallColor, roughness: 0.5 });
+    this.hazardMaterial = new THREE.MeshStandardMaterial({ color: 0xffffff, roughness: 0.6 });
 
-    let floorCount = 0;
-    let wallCount = 0;
+    for (let minY = 0; minY < dungeon.height; minY += CHUNK_SIZE) {
+      for (let minX = 0; minX < dungeon.width; minX += CHUNK_SIZE) {
+        this.createChunk(dungeon, minX, minY);
+      }
+    }
 
-    // Count tiles
-    for (let y = 0; y < dungeon.height; y++) {
-      for (let x = 0; x < dungeon.width; x++) {
-        if (dungeon.tiles[y][x] === TileType.FLOOR) {
-          floorCount++;
-        } else if (dungeon.tiles[y][x] === TileType.WALL) {
-          if (this.hasAdjacentFloor(dungeon, x, y)) {
-            wallCount++;
-          }
+    // Stairs down: a glowing tile so the exit is easy to spot
+    if (dungeon.stairsDown) {
+      const stairsGeometry = new THREE.BoxGeometry(1, 0.2, 1);
+      const stairsMaterial = new THREE.MeshStandardMaterial({
+        color: 0x1e3a8a,
+        emissive: 0x2563eb,
+        emissiveIntensity: 0.8,
+        roughness: 0.4,
+      });
+      this.stairsMesh = new THREE.Mesh(stairsGeometry, stairsMaterial);
+      this.stairsMesh.position.set(
+        dungeon.stairsDown.x - dungeon.width / 2,
+        -0.05,
+        dungeon.stairsDown.y - dungeon.height / 2
+      );
+      this.stairsMesh.receiveShadow = true;
+      this.stairsMesh.userData.tile = { ...dungeon.stairsDown };
+      this.scene.add(this.stairsMesh);
+    }
+
+    this.createDoors(dungeon);
+    this.updateFog();
+  }
+
+  /**
+   * Floor, wall and hazard meshes of one chunk
+   * Only walls touching walkable ground are drawn; the rock behind them never shows.
+   */
+  private createChunk(dungeon: DungeonData, minX: number, minY: number) {
+    const maxX = Math.min(minX + CHUNK_SIZE, dungeon.width);
+    const maxY = Math.min(minY + CHUNK_SIZE, dungeon.height);
+    const floorTiles: number[] = [];
+    const wallTiles: number[] = [];
+    const hazardTiles: number[] = [];
+    const hazardColors: THREE.Color[] = [];
+
+    for (let y = minY; y < maxY; y++) {
+      for (let x = minX; x < maxX; x++) {
+        const tile = dungeon.tiles[y][x];
+        const index = y * dungeon.width + x;
+        if (isFloorTile(tile)) {
+          floorTiles.push(index);
+        } else if (tile === TileType.WALL && this.hasAdjacentFloor(dungeon, x, y)) {
+          wallTiles.push(index);
+        }
+        if (isHazardTile(tile)) {
+          hazardTiles.push(index);
+          hazardColors.push(new THREE.Color(HAZARDS[tile].color));
         }
       }
     }
 
-    this.floorMesh = new THREE.InstancedMesh(floorGeometry, floorMaterial, floorCount);
-    this.wallMesh = new THREE.InstancedMesh(wallGeometry, wallMaterial, wallCount);
-    
-    // Enable shadows
-    this.floorMesh.receiveShadow = true;
-    this.wallMesh.receiveShadow = true;
-    this.wallMesh.castShadow = true;
+    // Every mesh of the chunk shares one bounding sphere around its tiles (floor to
+    // wall tops), so culling doesn't depend on which instances the fog has hidden
+    const bounds = new THREE.Box3(
+      new THREE.Vector3(minX - dungeon.width / 2 - 0.5, -0.2, minY - dungeon.height / 2 - 0.5),
+      new THREE.Vector3(maxX - dungeon.width / 2 - 0.5, 2, maxY - dungeon.height / 2 - 0.5)
+    );
+    const sphere = bounds.getBoundingSphere(new THREE.Sphere());
+
+    const layer = (geometry: THREE.BoxGeometry, material: THREE.Material, tiles: number[], colors?: THREE.Color[]) => {
+      if (tiles.length === 0) return null;
+      const mesh = new THREE.InstancedMesh(geometry, material, tiles.length);
+      // Per-instance tint for the fog of war (set up front so the shaders include it)
+      mesh.instanceColor = new THREE.InstancedBufferAttribute(new Float32Array(tiles.length * 3).fill(1), 3);
+      mesh.boundingSphere = sphere;
+      mesh.receiveShadow = true;
+      this.scene.add(mesh);
+      return { mesh, tiles, colors };
+    };
+
+    const chunk: DungeonChunk = {
+      floors: layer(this.floorGeometry!, this.floorMaterial!, floorTiles),
+      walls: layer(this.wallGeometry!, this.wallMaterial!, wallTiles),
+      hazards: layer(this.hazardGeometry!, this.hazardMaterial!, hazardTiles, hazardColors),
+      wallScale: new Float32Array(wallTiles.length).fill(1),
+      minX,
+      minY,
+      maxX,
+      maxY,
+    };
+    if (chunk.walls) chunk.walls.mesh.castShadow = true;
+    this.chunks.push(chunk);
+  }
+
+  /**
+   * Hide unexplored tiles and dim explored ones out of sight
+   * Cheap to call every frame: only reshades when the fog of war changed.
+   */
+  updateFog() {
+    if (this.chunks.length === 0 || this.fogVersion === FogOfWar.version) return;
+    // Fog of war belongs to another map (floor still loading)
+    if (FogOfWar.width !== this.mapSize.width || FogOfWar.height !== this.mapSize.height) return;
+    this.fogVersion = FogOfWar.version;
+
+    for (const chunk of this.chunks) {
+      if (chunk.floors) this.shadeInstances(chunk.floors, () => -0.1);
+      if (chunk.walls) this.shadeInstances(chunk.walls, i => chunk.wallScale[i], i => chunk.wallScale[i]);
+      if (chunk.hazards) this.shadeInstances(chunk.hazards, () => HAZARD_HEIGHT / 2);
+    }
+
+    for (const mesh of this.doorMeshes.values()) {
+      const { x, y } = mesh.userData.tile as { x: number; y: number };
+      mesh.visible = FogOfWar.isExplored(x, y);
+      mesh.material = FogOfWar.isVisible(x, y) ? this.doorMaterial! : this.rememberedDoorMaterial!;
+    }
+
+    if (this.stairsMesh) {
+      const { x, y } = this.stairsMesh.userData.tile as { x: number; y: number };
+      this.stairsMesh.visible = FogOfWar.isExplored(x, y);
+    }
+  }
+
+  /**
+   * Cut down the walls between the camera and the player, and grow back the rest
+   * @param target player position (world units)
+   * @param deltaTime seconds since the last frame
+   */
+  updateOcclusion(target: { x: number; z: number }, camera: THREE.Camera, deltaTime: number) {
+    if (this.chunks.length === 0) return;
+    const { width, height } = this.mapSize;
 
-    let floorIdx = 0;
-    let wallIdx = 0;
-    const dummy = new THREE.Object3D();
+    // Horizontal direction from the player towards the camera
+    const toCameraX = camera.position.x - target.x;
+    const toCameraZ = camera.position.z - target.z;
+    const length = Math.hypot(toCameraX, toCameraZ) || 1;
+    const dirX = toCameraX / length;
+    const dirZ = toCameraZ / length;
+
+    // Chunks the cut-away can reach, plus those still growing back
+    const gridX = target.x + width / 2;
+    const gridY = target.z + height / 2;
+    const reach = OCCLUSION_DEPTH + OCCLUSION_HALF_WIDTH + 1;
+    const candidates = new Set(this.cutChunks);
+    for (const chunk of this.chunks) {
+      if (gridX + reach >= chunk.minX && gridX - reach < chunk.maxX && gridY + reach >= chunk.minY && gridY - reach < chunk.maxY) {
+        candidates.add(chunk);
+      }
+    }
+
+    const step = WALL_CUT_SPEED * deltaTime;
+    for (const chunk of candidates) {
+      const walls = chunk.walls;
+      if (!walls) continue;
+
+      let changed = false;
+      let cut = false;
+      for (let i = 0; i < walls.tiles.length; i++) {
+        const index = walls.tiles[i];
+        // Offset from the player to the wall's centre
+        const offsetX = index % width - width / 2 - target.x;
+        const offsetZ = Math.floor(index / width) - height / 2 - target.z;
+        const along = offsetX * dirX + offsetZ * dirZ;
+        const across = Math.abs(offsetX * dirZ - offsetZ * dirX);
+        // Any part of the wall in front of the player (boxes reach half a tile past their centre)
+        const goal = along > -0.5 && along <= OCCLUSION_DEPTH && across <= OCCLUSION_HALF_WIDTH ? WALL_STUB_SCALE : 1;
+
+        const scale = chunk.wallScale[i];
+        if (scale !== goal) {
+          chunk.wallScale[i] = goal < scale ? Math.max(goal, scale - step) : Math.min(goal, scale + step);
+          this.placeInstance(walls.mesh, i, index, chunk.wallScale[i], chunk.wallScale[i]);
+          changed = true;
+        }
+        if (chunk.wallScale[i] < 1) cut = true;
+      }
+
+      if (changed) walls.mesh.instanceMatrix.needsUpdate = true;
+      if (cut) {
+        this.cutChunks.add(chunk);
+      } else {
+        this.cutChunks.delete(chunk);
+      }
+    }
+  }
+
+  /**
+   * Collapse unexplored instances to nothing and tint the rest by visibility
+   * @param posY height of each instance's centre
+   * @param scaleY height scale of each instance (1 if omitted)
+   */
+  private shadeInstances(layer: InstanceLayer, posY: (i: number) => number, scaleY?: (i: number) => number) {
+    const { mesh, tiles, colors } = layer;
+    const color = new THREE.Color();
+
+    for (let i = 0; i < tiles.length; i++) {
+      const index = tiles[i];
+      this.placeInstance(mesh, i, index, posY(i), scaleY?.(i) ?? 1);
+      color.copy(FogOfWar.visible[index] === 1 ? LIT_COLOR : REMEMBERED_COLOR);
+      if (colors) color.multiply(colors[i]);
+      mesh.setColorAt(i, color);
+    }
+
+    mesh.instanceMatrix.needsUpdate = true;
+    if (mesh.instanceColor) mesh.instanceColor.needsUpdate = true;
+  }
+
+  /**
+   * Position an instance on its tile (scaled to nothing while unexplored)
+   */
+  private placeInstance(mesh: THREE.InstancedMesh, i: number, index: number, posY: number, scaleY: number) {
+    const { width, height } = this.mapSize;
+    const explored = FogOfWar.explored[index] === 1;
+    instanceDummy.position.set(index % width - width / 2, posY, Math.floor(index / width) - height / 2);
+    instanceDummy.scale.set(explored ? 1 : 0, explored ? scaleY : 0, explored ? 1 : 0);
+    instanceDummy.updateMatrix();
+    mesh.setMatrixAt(i, instanceDummy.matrix);
+  }
+
+  /**
+   * Door panels, turned to span the corridor they close
+   */
+  private createDoors(dungeon: DungeonData) {
+    this.doorGeometry = new THREE.BoxGeometry(1, DOOR_HEIGHT, 0.2);
+    this.doorMaterial = new THREE.MeshStandardMaterial({ color: 0x6b4226, roughness: 0.9 });
+    this.rememberedDoorMaterial = this.doorMaterial.clone();
+    this.rememberedDoorMaterial.color.multiplyScalar(REMEMBERED_BRIGHTNESS);
+
+    const blocksSide = (x: number, y: number) => {
+      const tile = dungeon.tiles[y]?.[x];
+      return tile === TileType.WALL || tile === TileType.DOOR || tile === TileType.DOOR_OPEN;
+    };
 
     for (let y = 0; y < dungeon.height; y++) {
       for (let x = 0; x < dungeon.width; x++) {
         const type = dungeon.tiles[y][x];
-        
-        // Centered coordinates: x - width/2, y - height/2
-        const posX = x - dungeon.width / 2;
-        const posZ = y - dungeon.height / 2;
-
-        if (type === TileType.FLOOR) {
-          dummy.position.set(posX, -0.1, posZ);
-          dummy.scale.set(1, 1, 1);
-          dummy.updateMatrix();
-          this.floorMesh.setMatrixAt(floorIdx++, dummy.matrix);
-        } else if (type === TileType.WALL) {
-            // Only render walls if they are adjacent to a floor? 
-            // For now render all walls in the grid to be safe, or maybe just non-void ones.
-            // The generator initializes everything as WALL, so that's a lot of walls.
-            // Optimization: Only render walls that touch a floor.
-            if (this.hasAdjacentFloor(dungeon, x, y)) {
-                dummy.position.set(posX, 1, posZ);
-                dummy.scale.set(1, 1, 1);
-                dummy.updateMatrix();
-                // We might exceed the count if we counted all walls but only render some.
-                // However, we counted exactly the types. 
-                // Wait, if we optimize here we must optimize the count too.
-                // For safety in this iteration, I will skip the optimization check in the count 
-                // but implementation-wise I should be careful. 
-                // Actually, let's just render all walls for now to ensure we don't have holes in the view 
-                // if the camera sees outside. Or simple optimization: only if not surrounded by walls.
-                this.wallMesh.setMatrixAt(wallIdx++, dummy.matrix);
-            }
+        if (type !== TileType.DOOR && type !== TileType.DOOR_OPEN) continue;
+
+        const mesh = new THREE.Mesh(this.doorGeometry, this.doorMaterial);
+        mesh.position.set(x - dungeon.width / 2, 0, y - dungeon.height / 2);
+        // Walls or door left and right: the corridor runs along z, so the panel spans x
+        if (!(blocksSide(x - 1, y) && blocksSide(x + 1, y))) {
+          mesh.rotation.y = Math.PI / 2;
         }
+        mesh.castShadow = true;
+        mesh.receiveShadow = true;
+        mesh.userData.tile = { x, y };
+        this.applyDoorState(mesh, type === TileType.DOOR_OPEN);
+
+        this.doorMeshes.set(`${x},${y}`, mesh);
+        this.scene.add(mesh);
       }
     }
+  }
+
+  private applyDoorState(mesh: THREE.Mesh, open: boolean) {
+    const scale = open ? OPEN_DOOR_SCALE : 1;
+    mesh.scale.y = scale;
+    mesh.position.y = (DOOR_HEIGHT * scale) / 2;
+  }
+
+  /**
+   * Show door tiles (grid coordinates) opened or closed
+   */
+  setDoorState(tiles: readonly { x: number; y: number }[], open: boolean) {
+    for (const tile of tiles) {
+      const mesh = this.doorMeshes.get(`${tile.x},${tile.y}`);
+      if (mesh) this.applyDoorState(mesh, open);
+    }
+  }
 
-    this.scene.add(this.floorMesh);
-    this.scene.add(this.wallMesh);
+  /**
+   * Door tile under the pointer, as the world position of its tile centre
+   */
+  pickDoor(raycaster: THREE.Raycaster): { x: number; z: number } | null {
+    const [hit] = raycaster.intersectObjects([...this.doorMeshes.values()], false);
+    if (!hit) return null;
+
+    const tile = hit.object.userData.tile as { x: number; y: number };
+    return {
+      x: tile.x - this.mapSize.width / 2 + 0.5,
+      z: tile.y - this.mapSize.height / 2 + 0.5,
+    };
   }
 
   private hasAdjacentFloor(dungeon: DungeonData, x: number, y: number): boolean {
@@ -93,24 +382,52 @@ export class DungeonRenderer {
           const nx = x + dx;
           const ny = y + dy;
           if (nx >= 0 && nx < dungeon.width && ny >= 0 && ny < dungeon.height) {
-              if (dungeon.tiles[ny][nx] === TileType.FLOOR) return true;
+              const tile = dungeon.tiles[ny][nx];
+              if (isFloorTile(tile) || tile === TileType.STAIRS_DOWN) return true;
           }
       }
       return false;
   }
 
   dispose() {
-    if (this.floorMesh) {
-      this.scene.remove(this.floorMesh);
-      this.floorMesh.geometry.dispose();
-      (this.floorMesh.material as THREE.Material).dispose();
-      this.floorMesh = null;
+    for (const chunk of this.chunks) {
+      for (const layer of [chunk.floors, chunk.walls, chunk.hazards]) {
+        if (layer) {
+          this.scene.remove(layer.mesh);
+          layer.mesh.dispose();
+        }
+      }
+    }
+    this.chunks = [];
+    this.cutChunks.clear();
+    this.floorGeometry?.dispose();
+    this.wallGeometry?.dispose();
+    this.hazardGeometry?.dispose();
+    this.floorMaterial?.dispose();
+    this.wallMaterial?.dispose();
+    this.hazardMaterial?.dispose();
+    this.floorGeometry = null;
+    this.wallGeometry = null;
+    this.hazardGeometry = null;
+    this.floorMaterial = null;
+    this.wallMaterial = null;
+    this.hazardMaterial = null;
+    if (this.stairsMesh) {
+      this.scene.remove(this.stairsMesh);
+      this.stairsMesh.geometry.dispose();
+      (this.stairsMesh.material as THREE.Material).dispose();
+      this.stairsMesh = null;
     }
-    if (this.wallMesh) {
-      this.scene.remove(this.wallMesh);
-      this.wallMesh.geometry.dispose();
-      (this.wallMesh.material as THREE.Material).dispose();
-      this.wallMesh = null;
+    for (const mesh of this.doorMeshes.values()) {
+      this.scene.remove(mesh);
     }
+    this.doorMeshes.clear();
+    this.doorGeometry?.dispose();
+    this.doorMaterial?.dispose();
+    this.rememberedDoorMaterial?.dispose();
+    this.doorGeometry = null;
+    this.doorMaterial = null;
+    this.rememberedDoorMaterial = null;
+    this.fogVersion = -1;
   }
 }
@@ -1,15 +1,17 @@
 import * as THREE from 'three';
-import type { EntityId } from 'bitecs';
+import { query } from 'bitecs';
+import type { World, EntityId } from 'bitecs';
 import { 
-  Position, 
   CombatStats,
   hasPosition, 
   hasCombatStats,
-  hasMonster,
   hasCombatState,
   CombatState,
   CombatStateEnum,
+  getInterpolatedPosition,
 } from '../core/components';
+import { FogOfWar } from '../core/fog-of-war';
+import { HealthBarQuery, onExitQuery } from '../core/queries';
 
 /**
  * Health bar data per entity
@@ -29,6 +31,8 @@ const BAR_WIDTH = 1.2;
 const BAR_HEIGHT = 0.12;
 const BAR_Y_OFFSET = 1.3;
 
+const tempPosition = { x: 0, y: 0, z: 0 };
+
 /**
  * Health bar renderer using 3D meshes
  */
@@ -128,7 +132,7 @@ export class HealthBarPool {
   /**
    * Update health bar for an entity
    */
-  updateHealthBar(eid: EntityId, camera: THREE.Camera): void {
+  updateHealthBar(eid: EntityId, camera: THREE.Camera, alpha: number = 1): void {
     if (!hasCombatStats(eid) || !hasPosition(eid)) return;
     
     // Don't show health bars for dead entities
@@ -161,12 +165,15 @@ export class HealthBarPool {
       data.lastHpPercent = hpPercent;
     }
     
-    // Position above entity
+    // Position above entity (interpolated like the entity mesh)
+    const pos = getInterpolatedPosition(eid, alpha, tempPosition);
     data.container.position.set(
-      Position.x[eid],
-      Position.y[eid] + BAR_Y_OFFSET,
-      Position.z[eid]
+      pos.x,
+      pos.y + BAR_Y_OFFSET,
+      pos.z
     );
+    // No health bars for monsters hidden by the fog of war
+    data.container.visible = FogOfWar.isVisibleAt(pos.x, pos.z);
     
     // Billboard: always face the camera
     data.container.lookAt(camera.position);
@@ -212,13 +219,16 @@ export class HealthBarPool {
 /**
  * Create health bar render system for monsters
  */
-export function createHealthBarSystem(pool: HealthBarPool, camera: THREE.Camera) {
-  return function healthBarSystem(entities: Set<EntityId>): void {
-    for (const eid of entities) {
-      // Only show health bars for monsters
-      if (!hasMonster(eid)) continue;
-      
-      pool.updateHealthBar(eid, camera);
+export function createHealthBarSystem(pool: HealthBarPool, camera: THREE.Camera, world: World) {
+  // Drop the bar as soon as the entity leaves the query (death, despawn)
+  onExitQuery(world, HealthBarQuery, (eid) => {
+    pool.removeHealthBar(eid);
+  });
+
+  return function healthBarSystem(world: World, alpha: number = 1): void {
+    // Only show health bars for monsters
+    for (const eid of query(world, HealthBarQuery)) {
+      pool.updateHealthBar(eid, camera, alpha);
     }
   };
 }
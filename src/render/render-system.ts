@@ -1,6 +1,12 @@
 import * as THREE from 'three';
-import type { EntityId } from 'bitecs';
-import { Position, Renderable, hasPosition, hasRenderable } from '../core/components';
+import { query } from 'bitecs';
+import type { World } from 'bitecs';
+import { Renderable, snapPreviousPosition, getInterpolatedPosition, hasMonster, hasProp } from '../core/components';
+import { FogOfWar } from '../core/fog-of-war';
+import { RenderableQuery, createEnterQueue, onExitQuery } from '../core/queries';
+
+// Props are drawn as smaller boxes than actors
+const PROP_SCALE = 0.6;
 
 /**
  * Object pool for reusable Three.js meshes
@@ -87,44 +93,59 @@ export class RenderObjectPool {
 
 /**
  * Render system that syncs ECS positions with Three.js objects
+ * Meshes are acquired when an entity enters the renderable query and
+ * released back to the pool when it leaves. Positions are interpolated
+ * between the last two simulation ticks.
  */
-export function createRenderSystem(pool: RenderObjectPool) {
-  const initialized = new Set<EntityId>();
+export function createRenderSystem(pool: RenderObjectPool, world: World) {
   const tempColor = new THREE.Color();
+  const tempPosition = { x: 0, y: 0, z: 0 };
+  const drainEntered = createEnterQueue(world, RenderableQuery);
+  const acquired = new Set<number>();
 
-  return function renderSystem(entities: Set<EntityId>): void {
-    for (const eid of entities) {
-      if (!hasPosition(eid) || !hasRenderable(eid)) continue;
+  onExitQuery(world, RenderableQuery, (eid) => {
+    if (!acquired.delete(eid)) return;
+    pool.release(Renderable.objectIndex[eid]);
+  });
 
-      // Initialize new entities
-      if (!initialized.has(eid)) {
-        // Get color from component
-        tempColor.setRGB(
-          Renderable.colorR[eid] || 0,
-          Renderable.colorG[eid] || 1,
-          Renderable.colorB[eid] || 0.5
-        );
-        
-        const { index, object } = pool.acquire(tempColor);
-        Renderable.objectIndex[eid] = index;
-        initialized.add(eid);
-        
-        // Set initial position
-        object.position.set(
-          Position.x[eid],
-          Position.y[eid] + 0.5, // Offset to sit on ground
-          Position.z[eid]
-        );
-      }
+  return function renderSystem(world: World, alpha: number = 1): void {
+    // Initialize new entities
+    for (const eid of drainEntered()) {
+      // Spawned since the last tick - nothing to interpolate from yet
+      snapPreviousPosition(eid);
+      
+      // Get color from component
+      tempColor.setRGB(
+        Renderable.colorR[eid] || 0,
+        Renderable.colorG[eid] || 1,
+        Renderable.colorB[eid] || 0.5
+      );
+      
+      const { index, object } = pool.acquire(tempColor);
+      // Pooled meshes may have been a prop before
+      object.scale.setScalar(hasProp(eid) ? PROP_SCALE : 1);
+      Renderable.objectIndex[eid] = index;
+      acquired.add(eid);
+    }
 
-      // Update positions for all renderable entities
+    // Update positions for all renderable entities
+    for (const eid of query(world, RenderableQuery)) {
       const object = pool.get(Renderable.objectIndex[eid]);
       if (object) {
+        const pos = getInterpolatedPosition(eid, alpha, tempPosition);
         object.position.set(
-          Position.x[eid],
-          Position.y[eid] + 0.5,
-          Position.z[eid]
+          pos.x,
+          pos.y + object.scale.y / 2, // Offset to sit on ground
+          pos.z
         );
+        // Monsters only show inside the player's vision, props once their tile is explored
+        if (hasMonster(eid)) {
+          object.visible = FogOfWar.isVisibleAt(pos.x, pos.z);
+        } else if (hasProp(eid)) {
+          object.visible = FogOfWar.isExploredAt(pos.x, pos.z);
+        } else {
+          object.visible = true;
+        }
       }
     }
   };
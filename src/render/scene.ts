@@ -1,5 +1,6 @@
 import * as THREE from 'three';
 import { IsometricCamera } from './camera';
+import { FixedTimestep } from '../core/fixed-timestep';
 
 /**
  * Main Three.js scene wrapper with WebGPU/WebGL2 fallback
@@ -8,6 +9,7 @@ export class GameScene {
   readonly scene: THREE.Scene;
   readonly renderer: THREE.WebGLRenderer;
   readonly isometricCamera: IsometricCamera;
+  readonly timestep = new FixedTimestep();
   private animationId: number | null = null;
   private readonly container: HTMLElement;
 
@@ -86,9 +88,15 @@ export class GameScene {
 
   /**
    * Start the render loop
+   * @param onFixedUpdate Simulation tick, called zero or more times per frame with a fixed delta
+   * @param onFrame Per-frame update with the real delta and the interpolation factor
    */
-  start(onUpdate: (deltaTime: number) => void): void {
+  start(
+    onFixedUpdate: (fixedDelta: number) => void,
+    onFrame: (deltaTime: number, alpha: number) => void
+  ): void {
     let lastTime = performance.now();
+    this.timestep.reset();
 
     const animate = (currentTime: number) => {
       this.animationId = requestAnimationFrame(animate);
@@ -96,7 +104,8 @@ export class GameScene {
       const deltaTime = (currentTime - lastTime) / 1000; // Convert to seconds
       lastTime = currentTime;
 
-      onUpdate(deltaTime);
+      const alpha = this.timestep.advance(deltaTime, onFixedUpdate);
+      onFrame(deltaTime, alpha);
       this.renderer.render(this.scene, this.isometricCamera.camera);
     };
 
@@ -0,0 +1,183 @@
+/**
+ * Player Commands - gameplay inputs as data
+ *
+ * Input handlers translate clicks and keys into commands instead of writing
+ * components directly. The simulation applies queued commands at the start of
+ * the next tick, so a run can be replayed from its seed and the tick-stamped
+ * command log (see input-recording.ts).
+ */
+import type { EntityId } from 'bitecs';
+import {
+  Position,
+  MoveTarget,
+  CombatState,
+  CombatStateEnum,
+  ItemDataStore,
+  setTargetEntity,
+  clearTargetEntity,
+  hasTarget,
+  hasItemDrop,
+  hasMonster,
+  hasProp,
+  clearEntityComponents,
+} from '../core/components';
+import { getGameWorld, type EntityHandle } from '../core/world';
+import { gameEvents } from '../core/events';
+import { clearPath } from '../core/path-store';
+import { rng } from '../core/rng';
+import { spawnMonster } from '../core/entity-factory';
+import { pickMonsterArchetype } from '../core/monster-archetypes';
+import { DOOR_REACH, getDoorTiles, distanceToDoor, openDoor, closeDoor } from '../core/doors';
+import { equipItem, unequipItem, triggerStatRecalc } from '../core/equipment-system';
+import { spendTalentPoint } from '../core/progression';
+import { addItemToInventory } from '../stores/inventory';
+import { talents, allocateTalentPoint } from '../stores/talents';
+import { get } from 'svelte/store';
+
+export type GameCommand =
+  /** Walk to a ground position, dropping any target */
+  | { type: 'move'; x: number; z: number }
+  /** Walk towards an item that is out of pickup range */
+  | { type: 'moveToItem'; x: number; z: number }
+  /** Pick up an item drop */
+  | { type: 'pickup'; item: EntityHandle }
+  /** Attack a monster or break a prop */
+  | { type: 'attack'; target: EntityHandle }
+  /** Open or close the door at a ground position (walks to it when out of reach) */
+  | { type: 'door'; x: number; z: number }
+  /** Drop the current target */
+  | { type: 'clearTarget' }
+  /** Equip the item in an inventory slot (swapping out what the equipment slot holds) */
+  | { type: 'equip'; inventorySlot: number; slot: number }
+  /** Move an equipped item back to the inventory */
+  | { type: 'unequip'; slot: number }
+  /** Spend a talent point on a talent (talents.ts id) */
+  | { type: 'spendTalent'; talent: string }
+  /** Debug: spawn a monster near the origin (position, level and archetype rolled from the AI stream) */
+  | { type: 'spawnMonster' };
+
+export interface RecordedCommand {
+  tick: number;
+  command: GameCommand;
+}
+
+/**
+ * Walk to a ground position, dropping any target
+ */
+function walkTo(playerEid: EntityId, x: number, z: number): void {
+  clearTargetEntity(playerEid);
+  CombatState.state[playerEid] = CombatStateEnum.IDLE;
+  MoveTarget.x[playerEid] = x;
+  MoveTarget.y[playerEid] = 0;
+  MoveTarget.z[playerEid] = z;
+  MoveTarget.active[playerEid] = 1;
+}
+
+/**
+ * Apply a command to the player entity
+ * Entity references are handles, so a command that outlived its target is ignored.
+ */
+export function applyCommand(playerEid: EntityId, command: GameCommand): void {
+  const gameWorld = getGameWorld();
+
+  switch (command.type) {
+    case 'move':
+      walkTo(playerEid, command.x, command.z);
+      break;
+
+    case 'moveToItem':
+      MoveTarget.x[playerEid] = command.x;
+      MoveTarget.y[playerEid] = 0;
+      MoveTarget.z[playerEid] = command.z;
+      MoveTarget.active[playerEid] = 1;
+
+      // Clear existing path to force recalculation
+      clearPath(playerEid);
+
+      // Clear target entity if any
+      if (hasTarget(playerEid)) {
+        clearTargetEntity(playerEid);
+      }
+      break;
+
+    case 'pickup': {
+      const itemEid = gameWorld.resolve(command.item);
+      if (itemEid === null || !hasItemDrop(itemEid)) return;
+
+      const itemData = ItemDataStore.get(itemEid);
+      if (!itemData) return;
+
+      const slotIndex = addItemToInventory(itemEid, itemData);
+      if (slotIndex < 0) return; // Inventory full
+
+      gameEvents.emit('pickup', {
+        entity: playerEid,
+        itemEid,
+        itemData,
+        inventorySlot: slotIndex,
+      });
+
+      // Remove item from world (exit hooks drop the visuals)
+      clearEntityComponents(itemEid);
+      gameWorld.destroyEntity(itemEid);
+      break;
+    }
+
+    case 'attack': {
+      const targetEid = gameWorld.resolve(command.target);
+      if (targetEid === null || !(hasMonster(targetEid) || hasProp(targetEid))) return;
+      if (CombatState.state[targetEid] === CombatStateEnum.DEAD) return;
+
+      setTargetEntity(playerEid, targetEid);
+      CombatState.state[playerEid] = CombatStateEnum.MOVING_TO_TARGET;
+      break;
+    }
+
+    case 'door': {
+      const tiles = getDoorTiles(command.x, command.z);
+      if (tiles.length === 0) return;
+
+      // Out of reach: walk there (walking into a closed door opens it)
+      if (distanceToDoor(tiles, Position.x[playerEid], Position.z[playerEid]) > DOOR_REACH) {
+        walkTo(playerEid, command.x, command.z);
+        return;
+      }
+
+      if (!openDoor(command.x, command.z, playerEid)) {
+        closeDoor(command.x, command.z, playerEid);
+      }
+      break;
+    }
+
+    case 'clearTarget':
+      clearTargetEntity(playerEid);
+      CombatState.state[playerEid] = CombatStateEnum.IDLE;
+      break;
+
+    case 'equip':
+      equipItem(playerEid, command.inventorySlot, command.slot);
+      break;
+
+    case 'unequip':
+      unequipItem(playerEid, command.slot);
+      break;
+
+    case 'spendTalent': {
+      const talent = get(talents).find(t => t.id === command.talent);
+      if (!talent || talent.currentRank >= talent.maxRank) return;
+      if (!spendTalentPoint(playerEid)) return;
+
+      allocateTalentPoint(talent.id);
+      triggerStatRecalc(playerEid);
+      break;
+    }
+
+    case 'spawnMonster': {
+      const x = rng('ai').range(-10, 10);
+      const z = rng('ai').range(-10, 10);
+      const level = rng('ai').int(1, 3);
+      spawnMonster(x, z, level, pickMonsterArchetype(rng('ai')).id);
+      break;
+    }
+  }
+}
@@ -0,0 +1,20 @@
+// Headless simulation exports
+export { Simulation, FLOOR_WIDTH, FLOOR_HEIGHT, type SimulationOptions } from './simulation';
+export {
+  WORLD_SNAPSHOT_VERSION,
+  captureWorldSnapshot,
+  snapshotDungeon,
+  snapshotExplored,
+  restoreWorldEntities,
+  type WorldSnapshot,
+  type MonsterSnapshot,
+  type PropSnapshot,
+  type ItemDropSnapshot,
+} from './world-snapshot';
+export { applyCommand, type GameCommand, type RecordedCommand } from './commands';
+export {
+  INPUT_RECORDING_VERSION,
+  createInputRecording,
+  parseInputRecording,
+  type InputRecording,
+} from './input-recording';
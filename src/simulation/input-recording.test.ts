@@ -0,0 +1,41 @@
+import { describe, it, expect } from 'vitest';
+import { createInputRecording, parseInputRecording, INPUT_RECORDING_VERSION } from './input-recording';
+import type { RecordedCommand } from './commands';
+import { dungeonFromAscii, dungeonToJson } from '../core/dungeon-io';
+import mazeMap from '../data/maps/fixtures/maze.txt?raw';
+
+const COMMANDS: RecordedCommand[] = [
+  { tick: 3, command: { type: 'move', x: 4, z: -2 } },
+  { tick: 40, command: { type: 'equip', inventorySlot: 0, slot: 2 } },
+  { tick: 41, command: { type: 'spendTalent', talent: 'armor' } },
+];
+
+describe('input recordings', () => {
+  it('survive a round trip through JSON', () => {
+    const map = dungeonToJson(dungeonFromAscii(mazeMap));
+    const recording = createInputRecording(1234, 1, map, null, COMMANDS, 600);
+
+    expect(parseInputRecording(JSON.stringify(recording))).toEqual(recording);
+  });
+
+  it('copy the commands instead of sharing the live log', () => {
+    const commands = COMMANDS.map(c => ({ ...c, command: { ...c.command } }));
+    const recording = createInputRecording(1, 3, null, null, commands, 60);
+    commands[0].tick = 99;
+
+    expect(recording.commands[0].tick).toBe(3);
+    expect(recording.map).toBeUndefined();
+  });
+
+  it('reject unsupported versions, bad depths and broken maps', () => {
+    const valid = createInputRecording(1, 1, null, null, COMMANDS, 60);
+    const parse = (changes: object) => () => parseInputRecording(JSON.stringify({ ...valid, ...changes }));
+
+    expect(parse({ version: INPUT_RECORDING_VERSION + 1 })).toThrow(/version/);
+    expect(parse({ depth: 0 })).toThrow();
+    expect(parse({ depth: 2.5 })).toThrow();
+    expect(parse({ seed: '1' })).toThrow();
+    expect(parse({ map: '{"version": 1, "rows": []}' })).toThrow();
+    expect(parse({ depth: undefined })).not.toThrow();
+  });
+});
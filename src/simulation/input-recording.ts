@@ -0,0 +1,76 @@
+/**
+ * Input Recording - seed, starting floor and save, and tick-stamped commands of a run
+ *
+ * A run is fully determined by its seed, the floor (or loaded map) and the
+ * character (and saved world) it started from, and the commands applied each
+ * tick. Replaying a recording through a fresh Simulation reproduces the run
+ * tick for tick, so a recording attached to a bug report can be stepped
+ * through locally.
+ *
+ * Only gameplay commands are recorded (equipment and talent changes from the
+ * UI included) - camera movement doesn't affect the simulation.
+ */
+import type { SavedCharacterData } from '../core/persistence';
+import { dungeonFromJson } from '../core/dungeon-io';
+import { MAX_DEPTH } from '../core/depth';
+import type { RecordedCommand } from './commands';
+
+export const INPUT_RECORDING_VERSION = 1;
+
+export interface InputRecording {
+  version: number;
+  seed: number;
+  /** Floor the run started on (missing in older recordings - floor 1) */
+  depth?: number;
+  /** JSON map file the run started in (missing for generated floors) */
+  map?: string;
+  /** Save the run started from (null for a fresh character) */
+  character: SavedCharacterData | null;
+  commands: RecordedCommand[];
+  /** Ticks simulated when the recording was exported */
+  ticks: number;
+}
+
+/**
+ * Build a recording from a run's start state and command log
+ */
+export function createInputRecording(
+  seed: number,
+  depth: number,
+  map: string | null,
+  character: SavedCharacterData | null,
+  commands: readonly RecordedCommand[],
+  ticks: number
+): InputRecording {
+  return {
+    version: INPUT_RECORDING_VERSION,
+    seed,
+    depth,
+    map: map ?? undefined,
+    character,
+    commands: commands.map(c => ({ tick: c.tick, command: { ...c.command } })),
+    ticks,
+  };
+}
+
+/**
+ * Parse a recording file
+ * @throws if the JSON (or its map) is malformed or the version is unsupported
+ */
+export function parseInputRecording(json: string): InputRecording {
+  const recording = JSON.parse(json) as InputRecording;
+
+  if (recording?.version !== INPUT_RECORDING_VERSION) {
+    throw new Error(`Unsupported input recording version ${recording?.version}`);
+  }
+  const depth = recording.depth;
+  if (typeof recording.seed !== 'number' || !Array.isArray(recording.commands)
+    || (depth !== undefined && !(Number.isInteger(depth) && depth >= 1 && depth <= MAX_DEPTH))) {
+    throw new Error('Invalid input recording');
+  }
+  if (recording.map !== undefined) {
+    dungeonFromJson(recording.map);
+  }
+
+  return recording;
+}
@@ -0,0 +1,183 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { query } from 'bitecs';
+import type { EntityId } from 'bitecs';
+import { Simulation } from './simulation';
+import { Position, CombatStats, CombatState, CombatStateEnum, hasTargetEntity, resolveTargetEntity } from '../core/components';
+import { MonsterQuery } from '../core/queries';
+import { gameEvents } from '../core/events';
+import { dungeonFromAscii } from '../core/dungeon-io';
+import type { DungeonData } from '../core/dungeon-generator';
+import arenaMap from '../data/maps/fixtures/arena.txt?raw';
+import ambushMap from '../data/maps/fixtures/ambush.txt?raw';
+
+const TICKS_PER_SECOND = 60;
+
+let sim: Simulation | null = null;
+
+afterEach(() => {
+  sim?.dispose();
+  sim = null;
+});
+
+async function createSimulation(seed: number): Promise<Simulation> {
+  sim?.dispose();
+  sim = await Simulation.create({ seed });
+  return sim;
+}
+
+function isAlive(eid: EntityId): boolean {
+  return CombatState.state[eid] !== CombatStateEnum.DEAD && CombatStats.hp[eid] > 0;
+}
+
+function tileCenter(dungeon: DungeonData, point: { x: number; y: number }): { x: number; z: number } {
+  return { x: point.x - dungeon.width / 2 + 0.5, z: point.y - dungeon.height / 2 + 0.5 };
+}
+
+/**
+ * Scripted player: fight the nearest monster in sight range, otherwise head for the stairs
+ * Queues at most one command a second, like a player clicking around.
+ */
+function playScripted(simulation: Simulation, player: EntityId): void {
+  if (simulation.tick % TICKS_PER_SECOND !== 0 || hasTargetEntity(player)) return;
+
+  let nearest: EntityId | null = null;
+  let nearestDistance = 10;
+  for (const eid of query(simulation.world, MonsterQuery)) {
+    const distance = Math.hypot(Position.x[eid] - Position.x[player], Position.z[eid] - Position.z[player]);
+    if (isAlive(eid) && distance < nearestDistance) {
+      nearest = eid;
+      nearestDistance = distance;
+    }
+  }
+
+  if (nearest !== null) {
+    simulation.queueCommand({ type: 'attack', target: simulation.gameWorld.getHandle(nearest) });
+  } else if (simulation.dungeon?.stairsDown) {
+    const stairs = tileCenter(simulation.dungeon, simulation.dungeon.stairsDown);
+    simulation.queueCommand({ type: 'move', x: stairs.x, z: stairs.z });
+  }
+}
+
+/**
+ * Everything a run leaves behind: world snapshot, player state and applied commands
+ */
+function runOutcome(simulation: Simulation, player: EntityId) {
+  return {
+    world: simulation.captureSnapshot(),
+    player: { x: Position.x[player], z: Position.z[player], hp: CombatStats.hp[player] },
+    commands: simulation.commands,
+  };
+}
+
+async function playRun(seed: number, seconds: number) {
+  const simulation = await createSimulation(seed);
+  const player = simulation.createPlayer();
+  simulation.startFloor(1);
+  simulation.runUntil(s => {
+    playScripted(s, player);
+    return false;
+  }, seconds * TICKS_PER_SECOND);
+  return runOutcome(simulation, player);
+}
+
+describe('Simulation', () => {
+  it('player kills 3 skeletons within 20 s', async () => {
+    const simulation = await createSimulation(7);
+    const dungeon = dungeonFromAscii(arenaMap);
+    // Skeletons on the fixture's monster markers instead of random archetypes
+    const spawns = dungeon.enemySpawns;
+    dungeon.enemySpawns = [];
+
+    const player = simulation.createPlayer();
+    simulation.enterFloor(dungeon);
+    const skeletons = spawns.map(spawn => {
+      const { x, z } = tileCenter(dungeon, spawn);
+      return simulation.spawnMonster(x, z, 1, 'skeleton_basic');
+    });
+
+    const killed = new Set<EntityId>();
+    gameEvents.on('death', death => {
+      if (skeletons.includes(death.entity)) killed.add(death.entity);
+    });
+
+    const done = simulation.runUntil(s => {
+      if (killed.size === skeletons.length) return true;
+      if (!hasTargetEntity(player)) {
+        const next = skeletons.find(isAlive);
+        if (next !== undefined) s.queueCommand({ type: 'attack', target: s.gameWorld.getHandle(next) });
+      }
+      return false;
+    }, 20 * TICKS_PER_SECOND);
+
+    expect(done).toBe(true);
+    expect(killed.size).toBe(3);
+    expect(isAlive(player)).toBe(true);
+  });
+
+  it('plays out the same way for the same seed', async () => {
+    const first = await playRun(1234, 15);
+    const second = await playRun(1234, 15);
+
+    expect(first.commands.length).toBeGreaterThan(0);
+    expect(second).toEqual(first);
+  });
+
+  it('plays out differently for another seed', async () => {
+    const first = await playRun(1, 5);
+    const second = await playRun(2, 5);
+
+    expect(second.world.dungeon).not.toEqual(first.world.dungeon);
+  });
+
+  it('replays recorded commands to the same state', async () => {
+    const live = await playRun(99, 15);
+
+    const simulation = await createSimulation(99);
+    const player = simulation.createPlayer();
+    simulation.startFloor(1);
+    simulation.startReplay(live.commands);
+    // Live input is ignored while replaying
+    simulation.queueCommand({ type: 'move', x: 0, z: 0 });
+    simulation.run(15 * TICKS_PER_SECOND);
+
+    expect(runOutcome(simulation, player)).toEqual(live);
+  });
+
+  it('only aggroes monsters that can see the player', async () => {
+    const simulation = await createSimulation(3);
+    const dungeon = dungeonFromAscii(ambushMap);
+    const spawns = dungeon.enemySpawns;
+    dungeon.enemySpawns = [];
+
+    const player = simulation.createPlayer();
+    simulation.enterFloor(dungeon);
+    // Fixture markers: behind the wall (first row) and in the open (second)
+    const [hidden, inView] = spawns.map(spawn => {
+      const { x, z } = tileCenter(dungeon, spawn);
+      return simulation.spawnMonster(x, z, 1, 'zombie_basic');
+    });
+    simulation.run(5);
+
+    expect(hasTargetEntity(inView) && resolveTargetEntity(inView)).toBe(player);
+    expect(hasTargetEntity(hidden)).toBe(false);
+  });
+
+  it('lets the Fire Imp cast fireball from out of melee range', async () => {
+    const simulation = await createSimulation(5);
+    const dungeon = dungeonFromAscii(arenaMap);
+    dungeon.enemySpawns = [];
+
+    const player = simulation.createPlayer();
+    simulation.enterFloor(dungeon);
+    const imp = simulation.spawnMonster(Position.x[player] + 5, Position.z[player], 1, 'demon_fire');
+
+    const ranges: number[] = [];
+    gameEvents.on('attack', attack => {
+      if (attack.attacker === imp) ranges.push(Math.hypot(Position.x[imp] - Position.x[player], Position.z[imp] - Position.z[player]));
+    });
+    simulation.run(2);
+
+    expect(ranges).toHaveLength(1);
+    expect(ranges[0]).toBeGreaterThan(CombatStats.attackRange[imp]);
+  });
+});
@@ -0,0 +1,497 @@
+/**
+ * Headless Simulation - runs the gameplay systems without Three.js or the DOM
+ *
+ * Owns the game world, map, physics and the ordered system list. The browser
+ * game drives it from the fixed timestep; tests and tools can step it directly:
+ *
+ *   const sim = await Simulation.create({ seed: 42 });
+ *   const player = sim.createPlayer();
+ *   sim.startFloor(1);
+ *   sim.runFor(20);
+ *
+ * Gameplay state lives in module singletons (world, map, physics, event bus),
+ * so only one Simulation can be active at a time. create() resets them,
+ * event subscribers included.
+ */
+import { query } from 'bitecs';
+import type { World, EntityId } from 'bitecs';
+import RAPIER from '@dimforge/rapier3d-compat';
+import { getGameWorld, resetGameWorld, type GameWorld } from '../core/world';
+import {
+  Position,
+  Velocity,
+  MoveTarget,
+  CombatState,
+  CombatStateEnum,
+  clearTargetEntity,
+  clearEntityComponents,
+  snapPreviousPosition,
+} from '../core/components';
+import { MonsterQuery, ItemDropQuery, PropQuery, onExitQuery } from '../core/queries';
+import { positionSnapshotSystem, spatialIndexSystem, moveToTargetSystem, entitySeparationSystem } from '../core/systems';
+import { FIXED_DELTA } from '../core/fixed-timestep';
+import { SystemScheduler } from '../core/scheduler';
+import { gameEvents } from '../core/events';
+import { seedGameRng, getGameRng, randomSeed, rng } from '../core/rng';
+import { spatialIndex } from '../core/spatial-hash';
+import { MapStore } from '../core/map-store';
+import { PathStore, clearPath } from '../core/path-store';
+import { TileType, type DungeonData } from '../core/dungeon-generator';
+import { createDungeonGenerator } from '../core/biomes';
+import { createPlayer, spawnMonster, spawnProp } from '../core/entity-factory';
+import { pickMonsterArchetype } from '../core/monster-archetypes';
+import { pickPropType } from '../core/prop-types';
+import { doorSystem } from '../core/doors';
+import { onEquipmentChanged } from '../core/equipment-system';
+import { recalculateStats } from '../core/stat-calculator';
+import { FogOfWar, visibilitySystem } from '../core/fog-of-war';
+import { hazardSystem, clearHazardExposure } from '../core/hazards';
+import { floorSeed, monsterLevelForDepth, lootRarityForDepth } from '../core/depth';
+import { ROOM_ROLE_RULES, roomRoleAt } from '../core/room-roles';
+import { initPhysics, getPhysicsWorld, disposePhysics, removeEntityHitbox, createWallColliders } from '../combat/physics';
+import { mergeBoundaryWalls } from '../core/wall-rects';
+import { combatSystem, cooldownSystem } from '../combat/combat-system';
+import { damageSystem, deathCleanupSystem } from '../combat/damage-system';
+import { enemyAISystem } from '../combat/enemy-ai-system';
+import { regenerationSystem } from '../combat/regeneration-system';
+import { lootSystem, generateRandomItem, createItemDropEntity } from '../loot/loot-system';
+import {
+  WORLD_SNAPSHOT_VERSION,
+  captureWorldSnapshot,
+  snapshotDungeon,
+  snapshotExplored,
+  restoreWorldEntities,
+  type WorldSnapshot,
+} from './world-snapshot';
+import { applyCommand, type GameCommand, type RecordedCommand } from './commands';
+
+// Size of generated floors in tiles
+export const FLOOR_WIDTH = 80;
+export const FLOOR_HEIGHT = 80;
+
+export interface SimulationOptions {
+  /** Seed for every RNG stream (random if omitted) */
+  seed?: number;
+  /** Spawn loot drops on death (default true) */
+  loot?: boolean;
+}
+
+export class Simulation {
+  readonly gameWorld: GameWorld;
+  readonly seed: number;
+  readonly scheduler = new SystemScheduler();
+  playerEid: EntityId | null = null;
+  dungeon: DungeonData | null = null;
+  private tickCount = 0;
+  // Commands queued since the last tick, and every command applied so far
+  private pendingCommands: GameCommand[] = [];
+  private commandLog: RecordedCommand[] = [];
+  // Recorded commands fed back in replay mode (null when live)
+  private replayCommands: RecordedCommand[] | null = null;
+  private replayCursor = 0;
+  // Rapier body holding the loaded dungeon's wall colliders (removed on floor change)
+  private wallBody: RAPIER.RigidBody | null = null;
+  private unsubscribers: Array<() => void> = [];
+  private lootEnabled: boolean;
+
+  private constructor(options: SimulationOptions) {
+    resetGameWorld();
+    // Subscribers of a previous Simulation (never disposed) would run twice
+    gameEvents.reset();
+    MapStore.init(0, 0, []);
+    FogOfWar.init(0, 0);
+    PathStore.clear();
+    clearHazardExposure();
+    spatialIndex.clear();
+
+    this.gameWorld = getGameWorld();
+    this.seed = options.seed ?? randomSeed();
+    seedGameRng(this.seed);
+
+    // Broken (or cleared) props stop blocking their tile
+    this.unsubscribers.push(onExitQuery(this.world, PropQuery, eid => MapStore.setOccupied(Position.x[eid], Position.z[eid], false)));
+
+    // Equipment and talent changes update combat stats (the game UI replaces
+    // this with a handler that also refreshes its stores)
+    onEquipmentChanged(eid => recalculateStats(eid));
+
+    this.lootEnabled = options.loot ?? true;
+    if (this.lootEnabled) {
+      // Deeper floors and special rooms (boss, treasure) roll better loot
+      this.unsubscribers.push(gameEvents.on('death', death => lootSystem(death, this.lootRarityAt(death.position.x, death.position.z))));
+    }
+
+    this.registerSystems();
+  }
+
+  /**
+   * Gameplay systems. Render and UI systems are registered by the game.
+   */
+  private registerSystems(): void {
+    this.scheduler
+      // Take the stairs before anything else runs, so the tick (and its events) happen on the new floor
+      .register({ name: 'stairs', phase: 'input', before: ['commands'], run: () => this.checkStairs() })
+      // Player commands first, so spawned monsters get a position snapshot
+      .register({ name: 'commands', phase: 'input', before: ['positionSnapshot'], run: () => this.applyCommands() })
+      // Tick setup: record positions for interpolation, rebuild the spatial index
+      .register({ name: 'positionSnapshot', phase: 'input', run: (world) => positionSnapshotSystem(world) })
+      .register({ name: 'spatialIndex', phase: 'input', after: ['positionSnapshot'], run: (world) => spatialIndexSystem(world) })
+      // Monsters pick targets before combat resolves
+      .register({ name: 'enemyAI', phase: 'ai', run: (world, dt) => enemyAISystem(world, this.playerEid, dt) })
+      .register({ name: 'cooldown', phase: 'simulation', run: cooldownSystem })
+      .register({ name: 'combat', phase: 'simulation', after: ['cooldown'], run: combatSystem })
+      // Damage reads the attacks combat emitted this tick
+      .register({ name: 'damage', phase: 'simulation', after: ['combat'], run: (world) => damageSystem(world) })
+      .register({ name: 'regeneration', phase: 'simulation', after: ['damage'], run: regenerationSystem })
+      // Open doors before movers step into them
+      .register({ name: 'doors', phase: 'simulation', after: ['combat'], before: ['moveToTarget'], run: (world) => doorSystem(world) })
+      .register({ name: 'moveToTarget', phase: 'simulation', after: ['combat'], run: moveToTargetSystem })
+      .register({ name: 'entitySeparation', phase: 'simulation', after: ['moveToTarget'], run: entitySeparationSystem })
+      // Hazards hurt whoever ended up on them; their attacks go through damage like any other
+      .register({ name: 'hazards', phase: 'simulation', after: ['entitySeparation'], before: ['damage'], run: (world, dt) => hazardSystem(world, dt, this.depth) })
+      .register({ name: 'deathCleanup', phase: 'postSim', run: (world) => { deathCleanupSystem(world); } })
+      // Fog of war from where the player ended the tick
+      .register({ name: 'visibility', phase: 'postSim', before: ['events'], run: () => visibilitySystem(this.playerEid) })
+      // Deliver this tick's events (loot, floating text, VFX, ...) last
+      .register({ name: 'events', phase: 'postSim', after: ['deathCleanup'], run: () => gameEvents.flush() });
+  }
+
+  /**
+   * Initialize physics and reset all gameplay state
+   */
+  static async create(options: SimulationOptions = {}): Promise<Simulation> {
+    disposePhysics();
+    await initPhysics();
+    return new Simulation(options);
+  }
+
+  get world(): World {
+    return this.gameWorld.world;
+  }
+
+  /**
+   * Current floor (1 = top)
+   */
+  get depth(): number {
+    return this.dungeon?.depth ?? 1;
+  }
+
+  /**
+   * Number of ticks stepped so far
+   */
+  get tick(): number {
+    return this.tickCount;
+  }
+
+  /**
+   * Simulated time in seconds
+   */
+  get elapsed(): number {
+    return this.tickCount * FIXED_DELTA;
+  }
+
+  /**
+   * Load a dungeon into the map store and create wall colliders
+   * @param explored saved fog of war mask (unexplored if omitted)
+   */
+  loadDungeon(dungeon: DungeonData, explored?: Uint8Array): void {
+    this.unloadDungeon();
+    MapStore.init(dungeon.width, dungeon.height, dungeon.tiles);
+    FogOfWar.init(dungeon.width, dungeon.height, explored);
+    this.dungeon = dungeon;
+
+    // Boundary walls only, merged into as few boxes as possible
+    const wallRects = mergeBoundaryWalls(dungeon.tiles);
+    this.wallBody = createWallColliders(wallRects, dungeon.width, dungeon.height);
+  }
+
+  /**
+   * Remove the wall colliders and clear the map
+   */
+  unloadDungeon(): void {
+    if (this.wallBody) {
+      getPhysicsWorld().removeRigidBody(this.wallBody);
+      this.wallBody = null;
+    }
+    MapStore.init(0, 0, []);
+    FogOfWar.init(0, 0);
+    clearHazardExposure();
+    this.dungeon = null;
+  }
+
+  /**
+   * Generate, load and populate a floor of this run, and move the player to its start
+   * Floor layouts derive from the run seed, so a seed and depth always give the same floor.
+   * The floor's biome picks the generator (rooms, caves or templates).
+   */
+  startFloor(depth: number = 1): DungeonData {
+    const generator = createDungeonGenerator(FLOOR_WIDTH, FLOOR_HEIGHT, floorSeed(this.seed, depth), depth);
+    return this.enterFloor(generator.generate());
+  }
+
+  /**
+   * Load a floor and populate it from its spawn lists
+   * Takes generated dungeons as well as maps loaded from a file (see dungeon-io.ts).
+   */
+  enterFloor(dungeon: DungeonData): DungeonData {
+    const depth = dungeon.depth;
+    this.loadDungeon(dungeon);
+
+    // Random archetype (weighted by spawnWeight in monsters.json) and depth-based level,
+    // unless the spawn's room role says otherwise (boss rooms)
+    for (const spawn of dungeon.enemySpawns) {
+      const rules = ROOM_ROLE_RULES[spawn.role];
+      const x = spawn.x - dungeon.width / 2;
+      const z = spawn.y - dungeon.height / 2;
+      const archetype = rules.archetype ?? pickMonsterArchetype(rng('dungeon')).id;
+      this.spawnMonster(x, z, monsterLevelForDepth(depth, rng('dungeon')) + rules.levelBonus, archetype);
+    }
+
+    // Breakable props, with loot of the floor's level
+    for (const spawn of dungeon.propSpawns) {
+      const rules = ROOM_ROLE_RULES[spawn.role];
+      const x = spawn.x - dungeon.width / 2;
+      const z = spawn.y - dungeon.height / 2;
+      this.spawnProp(x, z, depth + rules.levelBonus, pickPropType(rng('dungeon')).id);
+    }
+
+    // Loot lying in treasure rooms and shrines
+    if (this.lootEnabled) {
+      for (const spawn of dungeon.itemSpawns) {
+        const rules = ROOM_ROLE_RULES[spawn.role];
+        const x = spawn.x - dungeon.width / 2;
+        const z = spawn.y - dungeon.height / 2;
+        const item = generateRandomItem(depth + rules.levelBonus, lootRarityForDepth(depth) * rules.lootRarity);
+        if (item) createItemDropEntity(x, 0, z, item);
+      }
+    }
+
+    if (this.playerEid !== null) {
+      const eid = this.playerEid;
+      Position.x[eid] = dungeon.playerStart.x - dungeon.width / 2;
+      Position.y[eid] = 0;
+      Position.z[eid] = dungeon.playerStart.y - dungeon.height / 2;
+      snapPreviousPosition(eid);
+    }
+
+    return dungeon;
+  }
+
+  /**
+   * Tear down the current floor: monsters, props, drops, walls and the player's orders
+   */
+  clearFloor(): void {
+    const doomed = [...query(this.world, MonsterQuery), ...query(this.world, PropQuery), ...query(this.world, ItemDropQuery)];
+    for (const eid of doomed) {
+      removeEntityHitbox(eid);
+      clearEntityComponents(eid);
+      this.gameWorld.destroyEntity(eid);
+    }
+
+    if (this.playerEid !== null) {
+      const eid = this.playerEid;
+      clearTargetEntity(eid);
+      CombatState.state[eid] = CombatStateEnum.IDLE;
+      MoveTarget.active[eid] = 0;
+      Velocity.x[eid] = 0;
+      Velocity.y[eid] = 0;
+      Velocity.z[eid] = 0;
+      clearPath(eid);
+    }
+
+    this.unloadDungeon();
+  }
+
+  /**
+   * Replace the current floor with the next one down
+   * Emits 'floorChange' so the game can rebuild the dungeon mesh.
+   */
+  descend(): DungeonData {
+    const depth = this.depth + 1;
+    this.clearFloor();
+    const dungeon = this.startFloor(depth);
+    gameEvents.emit('floorChange', { depth, dungeon });
+    return dungeon;
+  }
+
+  /**
+   * Descend when the living player stands on the stairs
+   */
+  private checkStairs(): void {
+    const eid = this.playerEid;
+    if (eid === null || !this.dungeon) return;
+    if (CombatState.state[eid] === CombatStateEnum.DEAD) return;
+
+    if (MapStore.getTile(Position.x[eid], Position.z[eid]) === TileType.STAIRS_DOWN) {
+      this.descend();
+    }
+  }
+
+  /**
+   * Loot rarity modifier for a kill at a world position (floor depth times room role)
+   */
+  private lootRarityAt(x: number, z: number): number {
+    let modifier = lootRarityForDepth(this.depth);
+    if (this.dungeon) {
+      const gridX = Math.floor(x + this.dungeon.width / 2);
+      const gridY = Math.floor(z + this.dungeon.height / 2);
+      modifier *= ROOM_ROLE_RULES[roomRoleAt(this.dungeon.rooms, gridX, gridY)].lootRarity;
+    }
+    return modifier;
+  }
+
+  /**
+   * Create the player at a world position
+   */
+  createPlayer(x: number = 0, z: number = 0): EntityId {
+    const eid = createPlayer();
+    Position.x[eid] = x;
+    Position.z[eid] = z;
+    this.playerEid = eid;
+    return eid;
+  }
+
+  /**
+   * Spawn a monster at a world position
+   * @param archetypeId monsters.json id (defaults to the first archetype)
+   */
+  spawnMonster(x: number, z: number, level: number = 1, archetypeId?: string): EntityId {
+    return spawnMonster(x, z, level, archetypeId);
+  }
+
+  /**
+   * Spawn a breakable prop at a world position
+   * @param level item level of its loot
+   * @param typeId props.json id (defaults to the first prop type)
+   */
+  spawnProp(x: number, z: number, level: number = 1, typeId?: string): EntityId {
+    return spawnProp(x, z, level, typeId);
+  }
+
+  /**
+   * Capture the dungeon, explored tiles, monsters, props, drops and RNG state for a save game
+   */
+  captureSnapshot(): WorldSnapshot {
+    if (!this.dungeon) {
+      throw new Error('No dungeon loaded. Call loadDungeon() first.');
+    }
+    return captureWorldSnapshot(this.world, this.dungeon, this.seed, getGameRng().getStates(), this.playerEid, FogOfWar.explored);
+  }
+
+  /**
+   * Load the snapshot's dungeon and re-create its monsters, props and drops
+   * Create the player first so monsters can resume chasing it.
+   * @returns the restored dungeon (for rendering)
+   */
+  restoreSnapshot(snapshot: WorldSnapshot): DungeonData {
+    if (snapshot.version !== WORLD_SNAPSHOT_VERSION) {
+      throw new Error(`Unsupported world snapshot version ${snapshot.version}`);
+    }
+
+    const dungeon = snapshotDungeon(snapshot);
+    this.loadDungeon(dungeon, snapshotExplored(snapshot) ?? undefined);
+    restoreWorldEntities(snapshot, this.playerEid);
+    getGameRng().setStates(snapshot.rng);
+    return dungeon;
+  }
+
+  /**
+   * Queue a player command for the next tick
+   * Ignored while replaying - the recording drives the player.
+   */
+  queueCommand(command: GameCommand): void {
+    if (this.replayCommands) return;
+    this.pendingCommands.push(command);
+  }
+
+  /**
+   * Commands applied so far, stamped with the tick they ran on
+   */
+  get commands(): readonly RecordedCommand[] {
+    return this.commandLog;
+  }
+
+  /**
+   * Feed recorded commands back instead of live input
+   * Start from the same seed and initial state as the recorded run.
+   */
+  startReplay(commands: readonly RecordedCommand[]): void {
+    this.replayCommands = [...commands].sort((a, b) => a.tick - b.tick);
+    this.replayCursor = 0;
+    this.pendingCommands = [];
+  }
+
+  get replaying(): boolean {
+    return this.replayCommands !== null;
+  }
+
+  private applyCommands(): void {
+    if (this.replayCommands) {
+      const commands = this.replayCommands;
+      while (this.replayCursor < commands.length && commands[this.replayCursor].tick <= this.tickCount) {
+        this.execute(commands[this.replayCursor++].command);
+      }
+      return;
+    }
+
+    const pending = this.pendingCommands;
+    this.pendingCommands = [];
+    for (const command of pending) {
+      this.execute(command);
+    }
+  }
+
+  private execute(command: GameCommand): void {
+    if (this.playerEid === null) return;
+    applyCommand(this.playerEid, command);
+    this.commandLog.push({ tick: this.tickCount, command });
+  }
+
+  /**
+   * Run one fixed tick of every enabled system
+   */
+  step(fixedDelta: number = FIXED_DELTA): void {
+    this.scheduler.runTick(this.gameWorld.world, fixedDelta);
+    this.tickCount++;
+  }
+
+  /**
+   * Step a number of ticks
+   */
+  run(ticks: number): void {
+    for (let i = 0; i < ticks; i++) {
+      this.step();
+    }
+  }
+
+  /**
+   * Step for a number of simulated seconds
+   */
+  runFor(seconds: number): void {
+    this.run(Math.round(seconds / FIXED_DELTA));
+  }
+
+  /**
+   * Step until the predicate holds or maxTicks have run
+   * @returns true if the predicate was satisfied
+   */
+  runUntil(predicate: (sim: Simulation) => boolean, maxTicks: number): boolean {
+    for (let i = 0; i < maxTicks; i++) {
+      if (predicate(this)) return true;
+      this.step();
+    }
+    return predicate(this);
+  }
+
+  /**
+   * Release physics and event subscriptions
+   */
+  dispose(): void {
+    for (const unsubscribe of this.unsubscribers) {
+      unsubscribe();
+    }
+    this.unsubscribers = [];
+    gameEvents.clear();
+    disposePhysics();
+  }
+}
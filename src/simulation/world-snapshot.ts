@@ -0,0 +1,257 @@
+/**
+ * World Snapshot - serializable state of a run (dungeon, fog of war, monsters, props, drops, RNG)
+ *
+ * Saved alongside the character data so a reload resumes in the same layout
+ * instead of restoring the player's position into a freshly generated dungeon.
+ * The player itself (stats, position, inventory, ...) stays in the character
+ * data; the snapshot covers everything else in the world.
+ */
+import { query } from 'bitecs';
+import type { World, EntityId } from 'bitecs';
+import {
+  Position,
+  CombatStats,
+  CombatState,
+  CombatStateEnum,
+  Cooldowns,
+  ItemDataStore,
+  getSkillCooldown,
+  setSkillCooldown,
+  setTargetEntity,
+  resolveTargetEntity,
+  hasTargetEntity,
+  type ItemData,
+} from '../core/components';
+import { MonsterQuery, ItemDropQuery, PropQuery } from '../core/queries';
+import { TileType, findTile, type DungeonData, type Room } from '../core/dungeon-generator';
+import type { RngStreamName } from '../core/rng';
+import { spawnMonster, spawnProp } from '../core/entity-factory';
+import { getEntityArchetype, getMonsterArchetype } from '../core/monster-archetypes';
+import { getEntityPropType, getPropType } from '../core/prop-types';
+import { createItemDropEntity } from '../loot/loot-system';
+
+export const WORLD_SNAPSHOT_VERSION = 1;
+
+export interface MonsterSnapshot {
+  /** Archetype id (missing in older snapshots - restored as the default archetype) */
+  archetype?: string;
+  position: { x: number; y: number; z: number };
+  level: number;
+  hp: number;
+  state: number;
+  attackTimer: number;
+  /** Ability cooldowns by skill slot (missing in older snapshots - ready) */
+  abilityTimers?: number[];
+  targetsPlayer: boolean;
+}
+
+export interface PropSnapshot {
+  /** props.json id */
+  type: string;
+  position: { x: number; y: number; z: number };
+  level: number;
+  hp: number;
+}
+
+export interface ItemDropSnapshot {
+  position: { x: number; y: number; z: number };
+  itemData: ItemData;
+}
+
+export interface WorldSnapshot {
+  version: number;
+  seed: number;
+  dungeon: {
+    /** Layout seed (missing in older snapshots - the run seed was used) */
+    seed?: number;
+    /** Floor number (missing in older snapshots - single-floor runs) */
+    depth?: number;
+    width: number;
+    height: number;
+    /** One string per row, one base-36 TileType character per tile */
+    rows: string[];
+    rooms: Room[];
+    playerStart: { x: number; y: number };
+    /** Explored tiles, one '0'/'1' string per row (missing in older snapshots - unexplored) */
+    explored?: string[];
+  };
+  monsters: MonsterSnapshot[];
+  /** Unbroken props (missing in older snapshots - none) */
+  props?: PropSnapshot[];
+  itemDrops: ItemDropSnapshot[];
+  rng: Record<RngStreamName, number>;
+}
+
+const TILE_TYPES = new Set<number>(Object.values(TileType));
+
+/**
+ * Encode dungeon tiles as one base-36 character per tile (compact in JSON;
+ * the first ten tile types are the digits older snapshots used)
+ */
+function encodeTiles(tiles: TileType[][]): string[] {
+  return tiles.map(row => row.map(tile => tile.toString(36)).join(''));
+}
+
+/**
+ * @throws on a character that isn't a known tile type
+ */
+function decodeTiles(rows: string[]): TileType[][] {
+  return rows.map((row, y) => Array.from(row, (c, x) => {
+    const tile = parseInt(c, 36);
+    if (!TILE_TYPES.has(tile)) {
+      throw new Error(`World snapshot: unknown tile "${c}" at (${x}, ${y})`);
+    }
+    return tile as TileType;
+  }));
+}
+
+/**
+ * Encode a per-tile 0/1 mask the same way, one string per row
+ */
+function encodeMask(mask: Uint8Array, width: number, height: number): string[] {
+  const rows: string[] = [];
+  for (let y = 0; y < height; y++) {
+    rows.push(mask.subarray(y * width, (y + 1) * width).join(''));
+  }
+  return rows;
+}
+
+/**
+ * Capture monsters, props, drops and dungeon layout (plus the explored mask if given)
+ */
+export function captureWorldSnapshot(
+  world: World,
+  dungeon: DungeonData,
+  seed: number,
+  rngStates: Record<RngStreamName, number>,
+  playerEid: EntityId | null,
+  explored?: Uint8Array
+): WorldSnapshot {
+  const monsters: MonsterSnapshot[] = [];
+  for (const eid of query(world, MonsterQuery)) {
+    // Dead monsters are removed at the end of the tick - don't resurrect them
+    if (CombatState.state[eid] === CombatStateEnum.DEAD) continue;
+
+    const archetype = getEntityArchetype(eid);
+    monsters.push({
+      archetype: archetype?.id,
+      position: { x: Position.x[eid], y: Position.y[eid], z: Position.z[eid] },
+      level: CombatStats.level[eid],
+      hp: CombatStats.hp[eid],
+      state: CombatState.state[eid],
+      attackTimer: Cooldowns.attackTimer[eid],
+      abilityTimers: archetype?.abilities.map((_, slot) => getSkillCooldown(eid, slot)),
+      targetsPlayer: playerEid !== null && hasTargetEntity(eid) && resolveTargetEntity(eid) === playerEid,
+    });
+  }
+
+  const props: PropSnapshot[] = [];
+  for (const eid of query(world, PropQuery)) {
+    const propType = getEntityPropType(eid);
+    if (!propType || CombatState.state[eid] === CombatStateEnum.DEAD) continue;
+
+    props.push({
+      type: propType.id,
+      position: { x: Position.x[eid], y: Position.y[eid], z: Position.z[eid] },
+      level: CombatStats.level[eid],
+      hp: CombatStats.hp[eid],
+    });
+  }
+
+  const itemDrops: ItemDropSnapshot[] = [];
+  for (const eid of query(world, ItemDropQuery)) {
+    const itemData = ItemDataStore.get(eid);
+    if (!itemData) continue;
+
+    itemDrops.push({
+      position: { x: Position.x[eid], y: Position.y[eid], z: Position.z[eid] },
+      itemData,
+    });
+  }
+
+  return {
+    version: WORLD_SNAPSHOT_VERSION,
+    seed,
+    dungeon: {
+      seed: dungeon.seed,
+      depth: dungeon.depth,
+      width: dungeon.width,
+      height: dungeon.height,
+      rows: encodeTiles(dungeon.tiles),
+      rooms: dungeon.rooms,
+      playerStart: dungeon.playerStart,
+      explored: explored && encodeMask(explored, dungeon.width, dungeon.height),
+    },
+    monsters,
+    props,
+    itemDrops,
+    rng: rngStates,
+  };
+}
+
+/**
+ * Rebuild the dungeon data stored in a snapshot
+ */
+export function snapshotDungeon(snapshot: WorldSnapshot): DungeonData {
+  const tiles = decodeTiles(snapshot.dungeon.rows);
+  return {
+    seed: snapshot.dungeon.seed ?? snapshot.seed,
+    depth: snapshot.dungeon.depth ?? 1,
+    width: snapshot.dungeon.width,
+    height: snapshot.dungeon.height,
+    tiles,
+    rooms: snapshot.dungeon.rooms,
+    playerStart: snapshot.dungeon.playerStart,
+    stairsDown: findTile(tiles, TileType.STAIRS_DOWN),
+    // Monsters, props and drops are restored from the snapshot, not re-spawned
+    enemySpawns: [],
+    itemSpawns: [],
+    propSpawns: [],
+  };
+}
+
+/**
+ * Explored tiles stored in a snapshot (null if it has none)
+ */
+export function snapshotExplored(snapshot: WorldSnapshot): Uint8Array | null {
+  const rows = snapshot.dungeon.explored;
+  if (!rows) return null;
+  return Uint8Array.from(rows.join(''), c => (c === '1' ? 1 : 0));
+}
+
+/**
+ * Re-create the monsters, props and drops from a snapshot
+ * The dungeon must already be loaded and the player created.
+ */
+export function restoreWorldEntities(snapshot: WorldSnapshot, playerEid: EntityId | null): void {
+  for (const monster of snapshot.monsters) {
+    const archetype = monster.archetype !== undefined && getMonsterArchetype(monster.archetype)
+      ? monster.archetype
+      : undefined;
+    const eid = spawnMonster(monster.position.x, monster.position.z, monster.level, archetype);
+    Position.y[eid] = monster.position.y;
+    CombatStats.hp[eid] = Math.min(monster.hp, CombatStats.maxHp[eid]);
+    Cooldowns.attackTimer[eid] = monster.attackTimer;
+    monster.abilityTimers?.forEach((timer, slot) => setSkillCooldown(eid, slot, timer));
+
+    if (monster.targetsPlayer && playerEid !== null) {
+      setTargetEntity(eid, playerEid);
+      CombatState.state[eid] = monster.state;
+    } else {
+      CombatState.state[eid] = CombatStateEnum.IDLE;
+    }
+  }
+
+  for (const prop of snapshot.props ?? []) {
+    // Props removed from props.json since the save are dropped
+    if (!getPropType(prop.type)) continue;
+    const eid = spawnProp(prop.position.x, prop.position.z, prop.level, prop.type);
+    CombatStats.hp[eid] = Math.min(prop.hp, CombatStats.maxHp[eid]);
+  }
+
+  for (const drop of snapshot.itemDrops) {
+    const eid = createItemDropEntity(drop.position.x, drop.position.y, drop.position.z, drop.itemData);
+    // Stored position already includes the drop's height offset
+    Position.y[eid] = drop.position.y;
+  }
+}
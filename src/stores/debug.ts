@@ -0,0 +1,23 @@
+import { writable, type Writable } from 'svelte/store';
+
+/**
+ * ECS inspector overlay visibility
+ */
+export const inspectorOpen: Writable<boolean> = writable(false);
+
+/**
+ * Entity selected in the inspector (null = none)
+ */
+export const selectedEntity: Writable<number | null> = writable(null);
+
+export interface ReplayStatus {
+  tick: number;
+  /** Ticks in the recording */
+  totalTicks: number;
+  paused: boolean;
+}
+
+/**
+ * Replay progress (null when playing live)
+ */
+export const replayStatus: Writable<ReplayStatus | null> = writable(null);
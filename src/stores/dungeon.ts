@@ -0,0 +1,15 @@
+import { writable, type Writable } from 'svelte/store';
+
+export interface FloorInfo {
+  /** Floor number, 1 = top */
+  depth: number;
+  /** Run seed (with the depth, regenerates the floor) */
+  seed: number;
+  /** Shareable link to this floor */
+  seedUrl: string;
+}
+
+/**
+ * Floor the player is on (null before the dungeon is loaded)
+ */
+export const currentFloor: Writable<FloorInfo | null> = writable(null);
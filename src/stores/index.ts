@@ -36,3 +36,15 @@ export {
   getTalentBonuses,
   type TalentNode,
 } from './talents';
+
+export {
+  inspectorOpen,
+  selectedEntity,
+  replayStatus,
+  type ReplayStatus,
+} from './debug';
+
+export {
+  currentFloor,
+  type FloorInfo,
+} from './dungeon';